@@ -8,7 +8,41 @@ const CONFIG = {
   NODE_ENV: process.env.NODE_ENV || "development",
   PORT: Number(process.env.PORT) || 3000,
   MONGO_URI: process.env.MONGO_URI || "",
+  JWT_SECRET: process.env.JWT_SECRET || "",
+  JWT_EXPIRES_IN: Number(process.env.JWT_EXPIRES_IN) || 7 * 24 * 60 * 60,
+  AUTH_NONCE_TTL: Number(process.env.AUTH_NONCE_TTL) || 10 * 60,
+  // wallets that are promoted to admin when they sign in
+  ADMIN_ADDRESSES: (process.env.ADMIN_ADDRESSES || "")
+    .split(",")
+    .filter(Boolean)
+    .map((address) => address.toLowerCase()),
+  // hosts allowed in the SIWE `domain` field, e.g. "gofunding.fun,localhost:5173"
+  SIWE_DOMAINS: (process.env.SIWE_DOMAINS || "").split(",").filter(Boolean),
+  // open reports that pull a token out of discovery until a moderator reviews it
+  REPORT_THRESHOLD: Number(process.env.REPORT_THRESHOLD) || 5,
+  REPORT_RATE_LIMIT: Number(process.env.REPORT_RATE_LIMIT) || 5,
+  REPORT_RATE_WINDOW: Number(process.env.REPORT_RATE_WINDOW) || 60 * 60,
+  // private RPC tried before the public ones on the default chain
+  RPC_URL: process.env.RPC_URL || "",
+  INDEXER_ENABLED: process.env.INDEXER_ENABLED !== "false",
+  INDEXER_BATCH_SIZE: Number(process.env.INDEXER_BATCH_SIZE) || 2_000,
+  INDEXER_CONFIRMATIONS: Number(process.env.INDEXER_CONFIRMATIONS) || 2,
+  INDEXER_REORG_DEPTH: Number(process.env.INDEXER_REORG_DEPTH) || 12,
+  INDEXER_POLL_INTERVAL: Number(process.env.INDEXER_POLL_INTERVAL) || 5_000,
+  MARKET_SYNC_ENABLED: process.env.MARKET_SYNC_ENABLED !== "false",
+  MARKET_SYNC_INTERVAL: Number(process.env.MARKET_SYNC_INTERVAL) || 60_000,
+  // seconds a wallet's portfolio is served from memory, and how many wallets are kept at once
+  PORTFOLIO_CACHE_TTL: Number(process.env.PORTFOLIO_CACHE_TTL) || 30,
+  PORTFOLIO_CACHE_SIZE: Number(process.env.PORTFOLIO_CACHE_SIZE) || 1_000,
 };
 
+// sessions can neither be signed nor checked without these, refuse to boot rather than 500 later
+if (!CONFIG.JWT_SECRET) {
+  throw new Error("JWT_SECRET must be set");
+}
+if (CONFIG.SIWE_DOMAINS.length === 0) {
+  throw new Error("SIWE_DOMAINS must list at least one host");
+}
+
 export { CONFIG };
 export default CONFIG;
@@ -0,0 +1,68 @@
+export const TOKEN_LAUNCHER_ABI = [
+  {
+    inputs: [{ internalType: "address", name: "_platform", type: "address" }],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: "address", name: "bondingCurveAddress", type: "address" },
+      { indexed: true, internalType: "address", name: "tokenAddress", type: "address" },
+    ],
+    name: "BondingCurveCreated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      { indexed: true, internalType: "address", name: "tokenAddress", type: "address" },
+      { indexed: false, internalType: "string", name: "name", type: "string" },
+      { indexed: false, internalType: "string", name: "symbol", type: "string" },
+      { indexed: true, internalType: "address", name: "deployer", type: "address" },
+    ],
+    name: "TokenCreated",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "INITIAL_CURVE_FUNDING",
+    outputs: [{ internalType: "uint256", name: "", type: "uint256" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "TOKEN_CREATION_FEE",
+    outputs: [{ internalType: "uint256", name: "", type: "uint256" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      { internalType: "string", name: "name", type: "string" },
+      { internalType: "string", name: "symbol", type: "string" },
+    ],
+    name: "createToken",
+    outputs: [
+      { internalType: "address", name: "tokenAddress", type: "address" },
+      { internalType: "address", name: "curveAddress", type: "address" },
+    ],
+    stateMutability: "payable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "platform",
+    outputs: [{ internalType: "address", name: "", type: "address" }],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [{ internalType: "address", name: "token", type: "address" }],
+    name: "recoverTokenOwnership",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+] as const;
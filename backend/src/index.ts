@@ -1,4 +1,5 @@
 import { mongoConnect } from "./packages/mongodb";
 import { runServer } from "./server";
+import { runJobs } from "./jobs";
 
-mongoConnect().then(runServer).catch(console.error);
+mongoConnect().then(runServer).then(runJobs).catch(console.error);
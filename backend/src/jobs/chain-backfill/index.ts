@@ -0,0 +1,18 @@
+import { TokenModel } from "@services/tokens/model";
+import { DEFAULT_CHAIN_ID } from "@shared/chains";
+
+/**
+ * Tokens listed before `chainId` existed were all deployed on the default chain. Stamps it on them
+ * so aggregations and `lean()` reads, which skip schema defaults, see the same value.
+ */
+export const backfillChainIds = async () => {
+  const { modifiedCount } = await TokenModel.updateMany(
+    { chainId: { $exists: false } },
+    { $set: { chainId: DEFAULT_CHAIN_ID } }
+  );
+  if (modifiedCount > 0) console.log(`Chain backfill: ${modifiedCount} tokens updated`);
+};
+
+export function runChainBackfill() {
+  backfillChainIds().catch((error) => console.error("Chain backfill error:", error));
+}
@@ -0,0 +1,68 @@
+import CONFIG from "@/config";
+import { TOKEN_LAUNCHER_ABI } from "@/constants/TOKEN_LAUNCHER_ABI";
+import { publicClient } from "@packages/viem";
+import { TokenModel } from "@services/tokens/model";
+import { DEFAULT_CHAIN_ID, getChain } from "@shared/chains";
+import type { Address } from "viem";
+
+/**
+ * Tokens listed before creation transactions were verified carry whatever `creatorAddress` the
+ * client sent. Replays the launcher's `TokenCreated` events for them so the deployer (and the
+ * creation tx) come from the chain, the same source `verifyCreation` uses for new listings. They
+ * all predate multi-chain listings, so only the default chain's launcher is replayed. Tokens no
+ * event matched after a full scan are marked `creatorUnverified`, so they are neither scanned for
+ * again on the next boot nor shown as created by the address the client claimed.
+ */
+export const backfillCreators = async () => {
+  const tokens = await TokenModel.find({
+    contractAddress: { $exists: true, $ne: "" },
+    creationTxHash: { $exists: false },
+    creatorUnverified: { $ne: true },
+  }).select("_id contractAddress");
+  if (tokens.length === 0) return;
+
+  const pending = new Map(tokens.map((token) => [token.contractAddress!.toLowerCase(), token._id]));
+  const head = Number(await publicClient.getBlockNumber());
+
+  for (
+    let fromBlock = getChain(DEFAULT_CHAIN_ID).startBlock;
+    fromBlock <= head && pending.size > 0;
+    fromBlock += CONFIG.INDEXER_BATCH_SIZE
+  ) {
+    const logs = await publicClient.getContractEvents({
+      abi: TOKEN_LAUNCHER_ABI,
+      address: getChain(DEFAULT_CHAIN_ID).launcherAddress,
+      eventName: "TokenCreated",
+      args: { tokenAddress: [...pending.keys()] as Address[] },
+      fromBlock: BigInt(fromBlock),
+      toBlock: BigInt(Math.min(fromBlock + CONFIG.INDEXER_BATCH_SIZE - 1, head)),
+    });
+
+    for (const log of logs) {
+      const tokenId = pending.get(log.args.tokenAddress!.toLowerCase());
+      if (!tokenId || log.removed) continue;
+
+      await TokenModel.updateOne(
+        { _id: tokenId },
+        { $set: { creatorAddress: log.args.deployer, creationTxHash: log.transactionHash } }
+      );
+      pending.delete(log.args.tokenAddress!.toLowerCase());
+    }
+  }
+
+  if (pending.size > 0) {
+    await TokenModel.updateMany(
+      { _id: { $in: [...pending.values()] } },
+      { $set: { creatorUnverified: true } }
+    );
+  }
+
+  console.log(
+    `Creator backfill: ${tokens.length - pending.size} of ${tokens.length} tokens updated, ` +
+      `${pending.size} unverified`
+  );
+};
+
+export function runCreatorBackfill() {
+  backfillCreators().catch((error) => console.error("Creator backfill error:", error));
+}
@@ -0,0 +1,14 @@
+import CONFIG from "@/config";
+import { runChainBackfill } from "./chain-backfill";
+import { runCreatorBackfill } from "./creator-backfill";
+import { runIndexer } from "./indexer";
+import { runMarketSync } from "./market-sync";
+
+export async function runJobs() {
+  runChainBackfill();
+  if (CONFIG.INDEXER_ENABLED) {
+    runCreatorBackfill();
+    runIndexer();
+  }
+  if (CONFIG.MARKET_SYNC_ENABLED) runMarketSync();
+}
@@ -0,0 +1,285 @@
+import CONFIG from "@/config";
+import { BONDING_CURVE_ABI } from "@/constants/BONDING_CURVE_ABI";
+import { getPublicClient, publicClient } from "@packages/viem";
+import { IndexerCursorModel, MarketModel } from "@services/market/model";
+import { TokenModel } from "@services/tokens/model";
+import { getChain } from "@shared/chains";
+import { formatEther, type Address, type Hash } from "viem";
+import type { Types } from "mongoose";
+
+type TrackedCurve = {
+  key: string;
+  chainId: number;
+  tokenId: Types.ObjectId;
+  contractAddress: string;
+  bondingCurveAddress: Address;
+};
+
+type CurveGroup = {
+  chainId: number;
+  lastBlock: number;
+  lastHash?: string;
+  curves: TrackedCurve[];
+};
+
+type CurveLog = Awaited<
+  ReturnType<typeof publicClient.getContractEvents<typeof BONDING_CURVE_ABI>>
+>[number];
+
+const loadCurves = async (): Promise<TrackedCurve[]> => {
+  const tokens = await TokenModel.find({ bondingCurveAddress: { $exists: true, $ne: "" } }).select(
+    "_id chainId contractAddress bondingCurveAddress"
+  );
+
+  return tokens.map((token) => ({
+    key: token.bondingCurveAddress!.toLowerCase(),
+    chainId: token.chainId,
+    tokenId: token._id as Types.ObjectId,
+    contractAddress: token.contractAddress!,
+    bondingCurveAddress: token.bondingCurveAddress as Address,
+  }));
+};
+
+/**
+ * Curves on the same chain that share the same cursor are fetched with a single `eth_getLogs`
+ * call. In the steady state every curve of a chain sits on the same block, so a tick costs one
+ * request per chain no matter how many tokens are listed. Curves without a cursor start from
+ * their chain's `startBlock`.
+ */
+const groupByCursor = async (curves: TrackedCurve[]): Promise<CurveGroup[]> => {
+  const cursors = await IndexerCursorModel.find({
+    bondingCurveAddress: { $in: curves.map((curve) => curve.key) },
+  });
+  const cursorByCurve = new Map(cursors.map((cursor) => [cursor.bondingCurveAddress, cursor]));
+
+  const groups = new Map<string, CurveGroup>();
+  for (const curve of curves) {
+    const cursor = cursorByCurve.get(curve.key);
+    const lastBlock = cursor ? cursor.blockNumber : getChain(curve.chainId).startBlock - 1;
+    const key = `${curve.chainId}:${lastBlock}`;
+
+    const group = groups.get(key) ?? {
+      chainId: curve.chainId,
+      lastBlock,
+      lastHash: cursor?.blockHash,
+      curves: [],
+    };
+    group.curves.push(curve);
+    groups.set(key, group);
+  }
+
+  return [...groups.values()];
+};
+
+const saveCursor = async (curves: TrackedCurve[], blockNumber: number, blockHash: string) => {
+  await IndexerCursorModel.bulkWrite(
+    curves.map((curve) => ({
+      updateOne: {
+        filter: { bondingCurveAddress: curve.key },
+        update: { $set: { blockNumber, blockHash } },
+        upsert: true,
+      },
+    }))
+  );
+};
+
+/**
+ * Compares the hash we stored with the canonical block at the same height. When they differ the
+ * chain reorganized under us: drop everything indexed in the last `INDEXER_REORG_DEPTH` blocks and
+ * let the next pass re-read them.
+ */
+const rewindOnReorg = async (group: CurveGroup) => {
+  if (!group.lastHash || group.lastBlock < 0) return;
+
+  const client = getPublicClient(group.chainId);
+  const block = await client.getBlock({ blockNumber: BigInt(group.lastBlock) });
+  if (block.hash === group.lastHash) return;
+
+  const rewindTo = Math.max(
+    group.lastBlock - CONFIG.INDEXER_REORG_DEPTH,
+    getChain(group.chainId).startBlock - 1
+  );
+  console.warn(
+    `Reorg detected on chain ${group.chainId} at block ${group.lastBlock}, rewinding to ${rewindTo}`
+  );
+
+  const tokenIds = group.curves.map((curve) => curve.tokenId);
+  await MarketModel.deleteMany({ tokenId: { $in: tokenIds }, blockNumber: { $gt: rewindTo } });
+  await TokenModel.updateMany(
+    { _id: { $in: tokenIds }, graduatedBlockNumber: { $gt: rewindTo } },
+    { $set: { hasGraduated: false }, $unset: { graduatedAt: 1, graduatedBlockNumber: 1 } }
+  );
+
+  if (rewindTo < 0) {
+    await IndexerCursorModel.deleteMany({
+      bondingCurveAddress: { $in: group.curves.map((curve) => curve.key) },
+    });
+  } else {
+    const rewindBlock = await client.getBlock({ blockNumber: BigInt(rewindTo) });
+    await saveCursor(group.curves, rewindTo, rewindBlock.hash);
+  }
+
+  group.lastBlock = rewindTo;
+  group.lastHash = undefined;
+};
+
+const toNumber = (wei: bigint) => Number(formatEther(wei));
+
+const handleLog = async (
+  log: CurveLog,
+  curve: TrackedCurve,
+  getTimestamp: (blockNumber: bigint) => Promise<Date>
+) => {
+  const timestamp = await getTimestamp(log.blockNumber);
+
+  if (log.eventName === "Graduated") {
+    await TokenModel.updateOne(
+      { _id: curve.tokenId },
+      {
+        $set: {
+          hasGraduated: true,
+          graduatedAt: timestamp,
+          graduatedBlockNumber: Number(log.blockNumber),
+        },
+      }
+    );
+    return;
+  }
+
+  let trade;
+  if (log.eventName === "Bought") {
+    const { buyer, ethIn, tokensOut, platformFee } = log.args as {
+      buyer: Address;
+      ethIn: bigint;
+      tokensOut: bigint;
+      platformFee: bigint;
+    };
+    trade = {
+      type: "buy",
+      trader: buyer,
+      ethAmount: ethIn,
+      tokenAmount: tokensOut,
+      platformFee,
+      price: tokensOut > 0n ? toNumber(ethIn - platformFee) / toNumber(tokensOut) : 0,
+      volume: toNumber(ethIn),
+    };
+  } else if (log.eventName === "Sold") {
+    const { seller, ethOut, tokensIn, platformFee } = log.args as {
+      seller: Address;
+      ethOut: bigint;
+      tokensIn: bigint;
+      platformFee: bigint;
+    };
+    trade = {
+      type: "sell",
+      trader: seller,
+      ethAmount: ethOut,
+      tokenAmount: tokensIn,
+      platformFee,
+      price: tokensIn > 0n ? toNumber(ethOut + platformFee) / toNumber(tokensIn) : 0,
+      volume: toNumber(ethOut + platformFee),
+    };
+  } else {
+    return;
+  }
+
+  const liquidity = await getPublicClient(curve.chainId).readContract({
+    abi: BONDING_CURVE_ABI,
+    address: curve.bondingCurveAddress,
+    functionName: "totalEthInvested",
+    blockNumber: log.blockNumber,
+  });
+
+  await MarketModel.updateOne(
+    { txHash: log.transactionHash, logIndex: log.logIndex },
+    {
+      $set: {
+        ...trade,
+        ethAmount: trade.ethAmount.toString(),
+        tokenAmount: trade.tokenAmount.toString(),
+        platformFee: trade.platformFee.toString(),
+        tokenId: curve.tokenId,
+        contractAddress: curve.contractAddress,
+        bondingCurveAddress: curve.bondingCurveAddress,
+        liquidity: toNumber(liquidity),
+        timestamp,
+        blockNumber: Number(log.blockNumber),
+        blockHash: log.blockHash,
+      },
+    },
+    { upsert: true }
+  );
+};
+
+const indexGroup = async (group: CurveGroup, safeHead: number) => {
+  await rewindOnReorg(group);
+
+  const client = getPublicClient(group.chainId);
+  const curveByAddress = new Map(group.curves.map((curve) => [curve.key, curve]));
+  const timestamps = new Map<bigint, Date>();
+  const getTimestamp = async (blockNumber: bigint) => {
+    if (!timestamps.has(blockNumber)) {
+      const block = await client.getBlock({ blockNumber });
+      timestamps.set(blockNumber, new Date(Number(block.timestamp) * 1000));
+    }
+    return timestamps.get(blockNumber)!;
+  };
+
+  while (group.lastBlock < safeHead) {
+    const fromBlock = group.lastBlock + 1;
+    const toBlock = Math.min(fromBlock + CONFIG.INDEXER_BATCH_SIZE - 1, safeHead);
+
+    const logs = await client.getContractEvents({
+      abi: BONDING_CURVE_ABI,
+      address: group.curves.map((curve) => curve.bondingCurveAddress),
+      fromBlock: BigInt(fromBlock),
+      toBlock: BigInt(toBlock),
+    });
+
+    for (const log of logs) {
+      const curve = curveByAddress.get(log.address.toLowerCase());
+      if (!curve || log.removed) continue;
+      await handleLog(log, curve, getTimestamp);
+    }
+
+    const block = await client.getBlock({ blockNumber: BigInt(toBlock) });
+    await saveCursor(group.curves, toBlock, block.hash as Hash);
+
+    group.lastBlock = toBlock;
+    timestamps.clear();
+  }
+};
+
+export const indexOnce = async () => {
+  const curves = await loadCurves();
+  if (curves.length === 0) return;
+
+  const safeHeads = new Map<number, number>();
+  const groups = await groupByCursor(curves);
+  for (const group of groups) {
+    // one chain's RPC being down should not hold the others back
+    try {
+      if (!safeHeads.has(group.chainId)) {
+        const head = Number(await getPublicClient(group.chainId).getBlockNumber());
+        safeHeads.set(group.chainId, head - CONFIG.INDEXER_CONFIRMATIONS);
+      }
+      await indexGroup(group, safeHeads.get(group.chainId)!);
+    } catch (error) {
+      console.error(`Indexer error on chain ${group.chainId}:`, error);
+    }
+  }
+};
+
+export function runIndexer() {
+  const tick = async () => {
+    try {
+      await indexOnce();
+    } catch (error) {
+      console.error("Indexer error:", error);
+    }
+    setTimeout(tick, CONFIG.INDEXER_POLL_INTERVAL);
+  };
+
+  console.log("Indexer started");
+  tick();
+}
@@ -0,0 +1,105 @@
+import CONFIG from "@/config";
+import { MarketModel } from "@services/market/model";
+import { TokenModel } from "@services/tokens/model";
+import { readCurves } from "@/utils/curve";
+import type { Address } from "viem";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+type WindowStats = { _id: string; volume: number; firstPrice: number; lastPrice: number };
+type ReferencePrice = { _id: string; price: number };
+
+/**
+ * Volume over the last 24h plus the price each token traded at 24h ago. Tokens that had no trade
+ * before the window use their first trade inside it as the reference.
+ */
+const loadDailyStats = async (since: Date) => {
+  const [windowStats, referencePrices] = await Promise.all([
+    MarketModel.aggregate<WindowStats>([
+      { $match: { timestamp: { $gte: since } } },
+      { $sort: { blockNumber: 1, logIndex: 1 } },
+      {
+        $group: {
+          _id: "$tokenId",
+          volume: { $sum: "$volume" },
+          firstPrice: { $first: "$price" },
+          lastPrice: { $last: "$price" },
+        },
+      },
+    ]),
+    MarketModel.aggregate<ReferencePrice>([
+      { $match: { timestamp: { $lt: since } } },
+      { $sort: { blockNumber: -1, logIndex: -1 } },
+      { $group: { _id: "$tokenId", price: { $first: "$price" } } },
+    ]),
+  ]);
+
+  return {
+    windowStats: new Map(windowStats.map((stats) => [String(stats._id), stats])),
+    referencePrices: new Map(referencePrices.map((ref) => [String(ref._id), ref.price])),
+  };
+};
+
+export const syncOnce = async () => {
+  const tokens = await TokenModel.find({ bondingCurveAddress: { $exists: true, $ne: "" } }).select(
+    "_id chainId bondingCurveAddress marketCap price hasGraduated"
+  );
+  if (tokens.length === 0) return;
+
+  const since = new Date(Date.now() - DAY);
+  const [onChain, { windowStats, referencePrices }] = await Promise.all([
+    readCurves(
+      tokens.map((token) => ({
+        chainId: token.chainId,
+        address: token.bondingCurveAddress as Address,
+      }))
+    ),
+    loadDailyStats(since),
+  ]);
+
+  const now = new Date();
+  await TokenModel.bulkWrite(
+    tokens.map((token, i) => {
+      const stats = windowStats.get(String(token._id));
+      // fall back to the indexed trades, then to the last value we stored, when the RPC read fails
+      const price = onChain[i].price ?? stats?.lastPrice ?? token.price;
+      const marketCap = onChain[i].marketCap ?? token.marketCap;
+      // the curve is the source of truth, this repairs a graduation the indexer missed or rewound
+      const hasGraduated = onChain[i].hasGraduated ?? token.hasGraduated;
+      const reference = referencePrices.get(String(token._id)) ?? stats?.firstPrice;
+      const priceChange24h = reference ? ((price - reference) / reference) * 100 : 0;
+
+      return {
+        updateOne: {
+          filter: { _id: token._id },
+          update: {
+            $set: {
+              marketCap,
+              price,
+              volume24h: stats?.volume ?? 0,
+              priceChange24h,
+              hasGraduated,
+              statsUpdatedAt: now,
+            },
+            // same as the indexer's rewind, a curve that never graduated has no graduation block
+            ...(!hasGraduated && { $unset: { graduatedAt: 1, graduatedBlockNumber: 1 } }),
+          },
+        },
+      };
+    })
+  );
+};
+
+export function runMarketSync() {
+  const tick = async () => {
+    try {
+      await syncOnce();
+    } catch (error) {
+      console.error("Market sync error:", error);
+    }
+    setTimeout(tick, CONFIG.MARKET_SYNC_INTERVAL);
+  };
+
+  console.log("Market sync started");
+  tick();
+}
@@ -0,0 +1,16 @@
+import { NextFunction, Request, Response } from "express";
+import { verifySession } from "@services/account/session";
+
+/** rejects requests without a valid `Authorization: Bearer <token>` from the SIWE flow */
+export const requireAuth = (req: Request, res: Response, next: NextFunction) => {
+  const [scheme, token] = (req.headers.authorization ?? "").split(" ");
+  const session = scheme === "Bearer" && token ? verifySession(token) : null;
+
+  if (!session) {
+    res.status(401).json({ message: "Sign in with your wallet first." });
+    return;
+  }
+
+  req.auth = session;
+  next();
+};
@@ -0,0 +1,20 @@
+import { NextFunction, Request, Response } from "express";
+import { Account, type Role } from "@services/account/model";
+
+/**
+ * Must run after `requireAuth`. The role is read from the account rather than the token, so a
+ * demoted wallet loses access right away instead of when its session expires.
+ */
+export const requireRole = (...roles: Role[]) => {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const account = await Account.findOne({ address: req.auth?.address });
+
+    if (!account || !roles.includes(account.role as Role)) {
+      res.status(403).json({ message: "You are not allowed to do this." });
+      return;
+    }
+
+    req.auth!.role = account.role!;
+    next();
+  };
+};
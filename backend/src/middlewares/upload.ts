@@ -0,0 +1,42 @@
+import { NextFunction, Request, Response } from "express";
+import multer from "multer";
+
+const MAX_IMAGE_SIZE = 4 * 1024 * 1024;
+
+class UnsupportedFileError extends Error {}
+
+const imageUploader = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_IMAGE_SIZE, files: 1 },
+  fileFilter: (_req, file, callback) => {
+    if (file.mimetype.startsWith("image/")) {
+      callback(null, true);
+    } else {
+      callback(new UnsupportedFileError("Only image files can be uploaded."));
+    }
+  },
+});
+
+/**
+ * Buffers a single optional image from `field`. Uploads end up pinned publicly, so anything that
+ * is not an image or is over `MAX_IMAGE_SIZE` is turned away with a 400 before it reaches Pinata.
+ */
+export const imageUpload = (field: string) => {
+  const handler = imageUploader.single(field);
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    handler(req, res, (error: unknown) => {
+      if (error instanceof multer.MulterError && error.code === "LIMIT_FILE_SIZE") {
+        res
+          .status(400)
+          .json({ message: `Image must be at most ${MAX_IMAGE_SIZE / 1024 / 1024} MB.` });
+        return;
+      }
+      if (error instanceof multer.MulterError || error instanceof UnsupportedFileError) {
+        res.status(400).json({ message: error.message });
+        return;
+      }
+      next(error);
+    });
+  };
+};
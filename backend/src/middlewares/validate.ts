@@ -0,0 +1,41 @@
+import { NextFunction, Request, Response } from "express";
+import { ZodTypeAny } from "zod";
+import { FieldError, toFieldErrors } from "@shared/schemas/common";
+
+type RequestSchemas = {
+  params?: ZodTypeAny;
+  query?: ZodTypeAny;
+  body?: ZodTypeAny;
+};
+
+const LOCATIONS = ["params", "query", "body"] as const;
+
+/**
+ * Parses `params`, `query` and `body` with the given schemas and replaces them with the parsed
+ * output, so controllers only ever see coerced, known fields. Every failing field is reported at
+ * once as `{ message, errors: [{ location, field, message }] }`.
+ */
+export const validate = (schemas: RequestSchemas) => {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const errors: (FieldError & { location: string })[] = [];
+
+    for (const location of LOCATIONS) {
+      const schema = schemas[location];
+      if (!schema) continue;
+
+      const result = schema.safeParse(req[location] ?? {});
+      if (result.success) {
+        req[location] = result.data;
+      } else {
+        errors.push(...toFieldErrors(result.error).map((error) => ({ location, ...error })));
+      }
+    }
+
+    if (errors.length > 0) {
+      res.status(400).json({ message: "Validation failed.", errors });
+      return;
+    }
+
+    next();
+  };
+};
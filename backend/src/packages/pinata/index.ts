@@ -4,3 +4,13 @@ export const pinata = new PinataSDK({
   pinataJwt: process.env.PINATA_JWT,
   pinataGateway: process.env.PINATA_GATEWAY,
 });
+
+/** pins a multer upload publicly and returns its gateway url */
+export const uploadPublicFile = async (file: Express.Multer.File) => {
+  const pinataFile = new File([file.buffer], file.originalname, {
+    type: file.mimetype,
+  });
+  const upload = await pinata.upload.public.file(pinataFile);
+
+  return pinata.gateways.public.convert(upload.cid);
+};
@@ -0,0 +1,38 @@
+import CONFIG from "@/config";
+import { DEFAULT_CHAIN_ID, getChain } from "@shared/chains";
+import { createPublicClient, defineChain, fallback, http, type PublicClient } from "viem";
+
+const clients = new Map<number, PublicClient>();
+
+/**
+ * A client for one of the registry's chains, built on first use. RPCs are tried in registry order;
+ * `RPC_URL`, when set, goes in front of them on the default chain.
+ */
+export const getPublicClient = (chainId: number = DEFAULT_CHAIN_ID): PublicClient => {
+  const config = getChain(chainId);
+  const cached = clients.get(config.id);
+  if (cached) return cached;
+
+  const rpcUrls =
+    config.id === DEFAULT_CHAIN_ID && CONFIG.RPC_URL
+      ? [CONFIG.RPC_URL, ...config.rpcUrls]
+      : config.rpcUrls;
+
+  const client = createPublicClient({
+    chain: defineChain({
+      id: config.id,
+      name: config.name,
+      nativeCurrency: config.nativeCurrency,
+      rpcUrls: { default: { http: rpcUrls } },
+      blockExplorers: { default: { name: "Explorer", url: config.explorerUrl } },
+      contracts: { multicall3: { address: config.multicall3 } },
+      testnet: config.testnet,
+    }),
+    transport: fallback(rpcUrls.map((url) => http(url))),
+  }) as PublicClient;
+
+  clients.set(config.id, client);
+  return client;
+};
+
+export const publicClient = getPublicClient();
@@ -3,6 +3,7 @@ import { router as AccountServices } from "@services/account";
 import { router as TokenServices } from "@services/tokens";
 import { router as UserServices } from "@services/users";
 import { router as MarketServices } from "@services/market";
+import { router as AdminServices } from "@services/admin";
 
 const router = Router();
 
@@ -16,6 +17,7 @@ const services = [
   { path: "/tokens", router: TokenServices },
   { path: "/users", router: UserServices },
   { path: "/market", router: MarketServices },
+  { path: "/admin", router: AdminServices },
 ];
 
 services.forEach(({ path, router: serviceRouter }) => {
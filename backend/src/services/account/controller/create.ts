@@ -0,0 +1,92 @@
+import CONFIG from "@/config";
+import { getPublicClient } from "@packages/viem";
+import { retryOnDuplicateKey } from "@/utils/helper";
+import { UserModel } from "@services/users/model";
+import { Request, Response } from "express";
+import { getAddress, type Hex } from "viem";
+import { generateSiweNonce, parseSiweMessage } from "viem/siwe";
+import { Account, AuthNonce } from "../model";
+import type { CreateSessionBody } from "../schema";
+import { signSession } from "../session";
+
+export const createNonce = async (req: Request, res: Response) => {
+  try {
+    const nonce = generateSiweNonce();
+    await AuthNonce.create({
+      nonce,
+      expiresAt: new Date(Date.now() + CONFIG.AUTH_NONCE_TTL * 1000),
+    });
+    res.status(201).json({ nonce });
+  } catch (error) {
+    console.error("Error creating nonce:", error);
+    res.status(500).json({ message: "Failed to create nonce." });
+  }
+};
+
+/**
+ * Exchanges a signed EIP-4361 message for a session token. The nonce is consumed before the
+ * signature is checked, so a message can never be replayed even when verification fails.
+ */
+export const createSession = async (req: Request, res: Response) => {
+  try {
+    const { message, signature } = req.body as CreateSessionBody;
+    const fields = parseSiweMessage(message);
+
+    if (!fields.address || !fields.nonce || !fields.domain) {
+      res.status(400).json({ message: "Malformed SIWE message." });
+      return;
+    }
+    if (!CONFIG.SIWE_DOMAINS.includes(fields.domain)) {
+      res.status(401).json({ message: "Message was signed for another domain." });
+      return;
+    }
+
+    const nonce = await AuthNonce.findOneAndDelete({
+      nonce: fields.nonce,
+      expiresAt: { $gt: new Date() },
+    });
+    if (!nonce) {
+      res.status(401).json({ message: "Nonce is invalid or expired." });
+      return;
+    }
+
+    // contract wallets are checked on the network they signed from
+    const valid = await getPublicClient(fields.chainId).verifySiweMessage({
+      message,
+      signature: signature as Hex,
+      nonce: fields.nonce,
+    });
+    if (!valid) {
+      res.status(401).json({ message: "Invalid signature." });
+      return;
+    }
+
+    const address = getAddress(fields.address);
+    const user = await retryOnDuplicateKey(() =>
+      UserModel.findOneAndUpdate(
+        { address },
+        { $setOnInsert: { address } },
+        { upsert: true, new: true }
+      )
+    );
+    let account = await Account.findOneAndUpdate(
+      { userId: String(user._id) },
+      { $setOnInsert: { userId: String(user._id), address } },
+      { upsert: true, new: true }
+    );
+    if (CONFIG.ADMIN_ADDRESSES.includes(address.toLowerCase()) && account.role !== "admin") {
+      account.role = "admin";
+      account = await account.save();
+    }
+
+    const session = { address, role: account.role! };
+    res.status(201).json({
+      ...session,
+      token: signSession(session),
+      expiresAt: new Date(Date.now() + CONFIG.JWT_EXPIRES_IN * 1000),
+    });
+  } catch (error) {
+    console.error("Error creating session:", error);
+    res.status(500).json({ message: "Failed to create session." });
+  }
+};
@@ -0,0 +1,5 @@
+import { Request, Response } from "express";
+
+export const findSession = async (req: Request, res: Response) => {
+  res.status(200).json(req.auth);
+};
@@ -1,19 +1,28 @@
 import { model, Schema } from "mongoose";
 
 const TABLE_ACCOUNT = "account";
+const TABLE_AUTH_NONCE = "auth_nonce";
 
-const ROLE = ["A", "B"];
+const ROLE = ["admin", "moderator", "creator", "user"] as const;
+
+type Role = (typeof ROLE)[number];
 
 const accountSchema = new Schema(
   {
     userId: {
       type: String,
       required: true,
+      unique: true,
+    },
+    address: {
+      type: String,
+      required: true,
+      unique: true,
     },
     role: {
       type: String,
       enum: ROLE,
-      default: ROLE[0],
+      default: "user",
     },
   },
   {
@@ -23,4 +32,21 @@ const accountSchema = new Schema(
 
 const Account = model(TABLE_ACCOUNT, accountSchema, TABLE_ACCOUNT);
 
-export { Account };
+/** one-time SIWE nonces, mongo drops them once `expiresAt` passes */
+const authNonceSchema = new Schema({
+  nonce: {
+    type: String,
+    required: true,
+    unique: true,
+  },
+  expiresAt: {
+    type: Date,
+    required: true,
+    expires: 0,
+  },
+});
+
+const AuthNonce = model(TABLE_AUTH_NONCE, authNonceSchema, TABLE_AUTH_NONCE);
+
+export { Account, AuthNonce, ROLE };
+export type { Role };
@@ -1,11 +1,14 @@
 import { Router } from "express";
+import { createNonce, createSession } from "../controller/create";
+import { findSession } from "../controller/find";
+import { createSessionBodySchema } from "../schema";
+import { requireAuth } from "@/middlewares/auth";
+import { validate } from "@/middlewares/validate";
 
 const router = Router();
 
-router.get("/", (_, res) => {
-  res.json({
-    test: "account entry",
-  });
-});
+router.post("/nonce", createNonce);
+router.post("/session", validate({ body: createSessionBodySchema }), createSession);
+router.get("/session", requireAuth, findSession);
 
 export { router };
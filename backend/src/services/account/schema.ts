@@ -0,0 +1,8 @@
+import { z } from "zod";
+
+export const createSessionBodySchema = z.object({
+  message: z.string().min(1).max(4000),
+  signature: z.string().regex(/^0x[a-fA-F0-9]+$/, "Must be a hex signature"),
+});
+
+export type CreateSessionBody = z.infer<typeof createSessionBodySchema>;
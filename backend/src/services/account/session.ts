@@ -0,0 +1,23 @@
+import CONFIG from "@/config";
+import jwt from "jsonwebtoken";
+
+export type AuthSession = {
+  address: string;
+  role: string;
+};
+
+export const signSession = (session: AuthSession) =>
+  jwt.sign(session, CONFIG.JWT_SECRET, {
+    subject: session.address,
+    expiresIn: CONFIG.JWT_EXPIRES_IN,
+  });
+
+/** the session a bearer token carries, or null when it is forged or expired */
+export const verifySession = (token: string): AuthSession | null => {
+  try {
+    const { address, role } = jwt.verify(token, CONFIG.JWT_SECRET) as jwt.JwtPayload;
+    return { address, role };
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,10 @@
+import { Request } from "express";
+import { AuditLogModel, type AuditAction } from "./model";
+
+/** every moderation endpoint goes through here so the log can't miss an action */
+export const recordAudit = (
+  req: Request,
+  action: AuditAction,
+  target: string,
+  details: Record<string, unknown> = {}
+) => AuditLogModel.create({ actor: req.auth!.address, action, target, details });
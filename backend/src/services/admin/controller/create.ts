@@ -0,0 +1,29 @@
+import { Request, Response } from "express";
+import { TokenModel } from "@services/tokens/model";
+import { BanModel } from "../model";
+import { recordAudit } from "../audit";
+import type { CreateBanBody } from "../schema";
+
+/** banning also pulls every token of the creator out of discovery */
+export const createBan = async (req: Request, res: Response) => {
+  try {
+    const { address, reason } = req.body as CreateBanBody;
+
+    if (await BanModel.exists({ address })) {
+      res.status(409).json({ message: "Address is already banned." });
+      return;
+    }
+
+    const ban = await BanModel.create({ address, reason, bannedBy: req.auth!.address });
+    const { modifiedCount } = await TokenModel.updateMany(
+      { creatorAddress: address, status: "active" },
+      { $set: { status: "inactive" } }
+    );
+    await recordAudit(req, "address.ban", address, { reason, deactivatedTokens: modifiedCount });
+
+    res.status(201).json(ban);
+  } catch (error) {
+    console.error("Error creating ban:", error);
+    res.status(500).json({ message: "Failed to ban address." });
+  }
+};
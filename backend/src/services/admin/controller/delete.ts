@@ -0,0 +1,21 @@
+import { Request, Response } from "express";
+import { BanModel } from "../model";
+import { recordAudit } from "../audit";
+
+/** tokens deactivated by the ban stay inactive until a moderator turns them back on */
+export const deleteBan = async (req: Request, res: Response) => {
+  try {
+    const { address } = req.params;
+    const ban = await BanModel.findOneAndDelete({ address });
+    if (!ban) {
+      res.status(404).json({ message: "Address is not banned." });
+      return;
+    }
+
+    await recordAudit(req, "address.unban", address);
+    res.status(200).json(ban);
+  } catch (error) {
+    console.error("Error deleting ban:", error);
+    res.status(500).json({ message: "Failed to unban address." });
+  }
+};
@@ -0,0 +1,118 @@
+import { Request, Response } from "express";
+import { ReportModel, TokenModel } from "@services/tokens/model";
+import { escapeRegex } from "@/utils/helper";
+import { AuditLogModel, BanModel } from "../model";
+import type { FindAuditLogQuery, FindBansQuery, FindTokensQuery } from "../schema";
+
+const FILTERS: Record<FindTokensQuery["filter"], Record<string, unknown>> = {
+  flagged: { flagged: true },
+  inactive: { status: "inactive" },
+  all: {},
+};
+
+const paginate = async <T>(
+  find: () => Promise<T[]>,
+  count: () => Promise<number>,
+  page: number,
+  limit: number
+) => {
+  const [items, total] = await Promise.all([find(), count()]);
+  return { items, page, total, totalPages: Math.max(Math.ceil(total / limit), 1) };
+};
+
+export const findTokens = async (req: Request, res: Response) => {
+  try {
+    const { filter, page, limit } = req.query as unknown as FindTokensQuery;
+    const match = FILTERS[filter];
+
+    const result = await paginate(
+      () =>
+        TokenModel.find(match)
+          .sort({ flaggedAt: -1, createdAt: -1 })
+          .skip((page - 1) * limit)
+          .limit(limit),
+      () => TokenModel.countDocuments(match),
+      page,
+      limit
+    );
+    res.status(200).json(result);
+  } catch (error) {
+    console.error("Error fetching moderation tokens:", error);
+    res.status(500).json({ message: "Failed to fetch tokens." });
+  }
+};
+
+export const findBans = async (req: Request, res: Response) => {
+  try {
+    const { page, limit } = req.query as unknown as FindBansQuery;
+
+    const result = await paginate(
+      () =>
+        BanModel.find()
+          .sort({ createdAt: -1 })
+          .skip((page - 1) * limit)
+          .limit(limit),
+      () => BanModel.countDocuments(),
+      page,
+      limit
+    );
+    res.status(200).json(result);
+  } catch (error) {
+    console.error("Error fetching bans:", error);
+    res.status(500).json({ message: "Failed to fetch bans." });
+  }
+};
+
+export const findAuditLog = async (req: Request, res: Response) => {
+  try {
+    const { target, page, limit } = req.query as unknown as FindAuditLogQuery;
+    const match = target ? { target: new RegExp(`^${escapeRegex(target)}$`, "i") } : {};
+
+    const result = await paginate(
+      () =>
+        AuditLogModel.find(match)
+          .sort({ createdAt: -1 })
+          .skip((page - 1) * limit)
+          .limit(limit),
+      () => AuditLogModel.countDocuments(match),
+      page,
+      limit
+    );
+    res.status(200).json(result);
+  } catch (error) {
+    console.error("Error fetching audit log:", error);
+    res.status(500).json({ message: "Failed to fetch audit log." });
+  }
+};
+
+/** reports of one token grouped by reason, newest first inside each group */
+export const findReports = async (req: Request, res: Response) => {
+  try {
+    const token = await TokenModel.findOne({ contractAddress: req.params.contractAddress });
+    if (!token) {
+      res.status(404).json({ message: "Token not found." });
+      return;
+    }
+
+    const reasons = await ReportModel.aggregate([
+      { $match: { tokenId: token._id } },
+      { $sort: { createdAt: -1 } },
+      {
+        $group: {
+          _id: "$reason",
+          count: { $sum: 1 },
+          reports: {
+            $push: { reporter: "$reporter", details: "$details", createdAt: "$createdAt" },
+          },
+        },
+      },
+      { $sort: { count: -1 } },
+      { $project: { _id: 0, reason: "$_id", count: 1, reports: { $slice: ["$reports", 20] } } },
+    ]);
+
+    res.status(200).json({ reportCount: token.reportCount, reasons });
+  } catch (error) {
+    console.error("Error fetching reports:", error);
+    res.status(500).json({ message: "Failed to fetch reports." });
+  }
+};
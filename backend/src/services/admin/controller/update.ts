@@ -0,0 +1,99 @@
+import { Request, Response } from "express";
+import { TokenModel } from "@services/tokens/model";
+import { Account } from "@services/account/model";
+import { recordAudit } from "../audit";
+import type { UpdateRoleBody, UpdateStatusBody, UpdateVisibilityBody } from "../schema";
+
+/** `contractAddress` arrives checksummed from the params schema, the form tokens are stored in */
+const findToken = (contractAddress: string) => TokenModel.findOne({ contractAddress });
+
+export const updateTokenStatus = async (req: Request, res: Response) => {
+  try {
+    const { status } = req.body as UpdateStatusBody;
+    const token = await findToken(req.params.contractAddress);
+    if (!token) {
+      res.status(404).json({ message: "Token not found." });
+      return;
+    }
+
+    const previous = token.status;
+    token.status = status;
+    await token.save();
+    await recordAudit(req, "token.status", token.contractAddress!, { from: previous, to: status });
+
+    res.status(200).json(token);
+  } catch (error) {
+    console.error("Error updating token status:", error);
+    res.status(500).json({ message: "Failed to update token status." });
+  }
+};
+
+export const updateTokenVisibility = async (req: Request, res: Response) => {
+  try {
+    const visibility = req.body as UpdateVisibilityBody;
+    const token = await findToken(req.params.contractAddress);
+    if (!token) {
+      res.status(404).json({ message: "Token not found." });
+      return;
+    }
+
+    token.set(visibility);
+    await token.save();
+    await recordAudit(req, "token.visibility", token.contractAddress!, visibility);
+
+    res.status(200).json(token);
+  } catch (error) {
+    console.error("Error updating token visibility:", error);
+    res.status(500).json({ message: "Failed to update token visibility." });
+  }
+};
+
+/** closes the review without changing anything else, the token needs fresh reports to be flagged again */
+export const dismissToken = async (req: Request, res: Response) => {
+  try {
+    const token = await findToken(req.params.contractAddress);
+    if (!token) {
+      res.status(404).json({ message: "Token not found." });
+      return;
+    }
+
+    token.flagged = false;
+    token.flaggedAt = undefined;
+    token.reportCount = 0;
+    await token.save();
+    await recordAudit(req, "token.dismiss", token.contractAddress!);
+
+    res.status(200).json(token);
+  } catch (error) {
+    console.error("Error dismissing token:", error);
+    res.status(500).json({ message: "Failed to dismiss token." });
+  }
+};
+
+export const updateAccountRole = async (req: Request, res: Response) => {
+  try {
+    const { role } = req.body as UpdateRoleBody;
+    const { address } = req.params;
+
+    if (address === req.auth!.address) {
+      res.status(400).json({ message: "You can't change your own role." });
+      return;
+    }
+
+    const account = await Account.findOne({ address });
+    if (!account) {
+      res.status(404).json({ message: "Account not found." });
+      return;
+    }
+
+    const previous = account.role;
+    account.role = role;
+    await account.save();
+    await recordAudit(req, "account.role", address, { from: previous, to: role });
+
+    res.status(200).json(account);
+  } catch (error) {
+    console.error("Error updating account role:", error);
+    res.status(500).json({ message: "Failed to update account role." });
+  }
+};
@@ -0,0 +1,52 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+export const AUDIT_ACTIONS = [
+  "token.status",
+  "token.visibility",
+  "token.dismiss",
+  "address.ban",
+  "address.unban",
+  "account.role",
+] as const;
+
+export type AuditAction = (typeof AUDIT_ACTIONS)[number];
+
+interface AuditLog extends Document {
+  actor: string;
+  action: AuditAction;
+  /** contract address for token actions, wallet address otherwise */
+  target: string;
+  details: Record<string, unknown>;
+  createdAt: Date;
+}
+
+const AuditLogSchema: Schema = new Schema({
+  actor: { type: String, required: true },
+  action: { type: String, required: true, enum: AUDIT_ACTIONS },
+  target: { type: String, required: true },
+  details: { type: Schema.Types.Mixed, default: {} },
+  createdAt: { type: Date, default: Date.now },
+});
+
+AuditLogSchema.index({ createdAt: -1 });
+AuditLogSchema.index({ target: 1, createdAt: -1 });
+
+export const AuditLogModel = mongoose.model<AuditLog>("AuditLog", AuditLogSchema);
+
+interface Ban extends Document {
+  address: string;
+  reason?: string;
+  bannedBy: string;
+  createdAt: Date;
+}
+
+const BanSchema: Schema = new Schema({
+  address: { type: String, required: true, unique: true },
+  reason: { type: String },
+  bannedBy: { type: String, required: true },
+  createdAt: { type: Date, default: Date.now },
+});
+
+export const BanModel = mongoose.model<Ban>("Ban", BanSchema);
+
+export const isBanned = async (address: string) => Boolean(await BanModel.exists({ address }));
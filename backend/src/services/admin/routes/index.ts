@@ -0,0 +1,70 @@
+import { Router } from "express";
+import { findAuditLog, findBans, findReports, findTokens } from "../controller/find";
+import {
+  dismissToken,
+  updateAccountRole,
+  updateTokenStatus,
+  updateTokenVisibility,
+} from "../controller/update";
+import { createBan } from "../controller/create";
+import { deleteBan } from "../controller/delete";
+import {
+  addressParamsSchema,
+  contractParamsSchema,
+  createBanBodySchema,
+  findAuditLogQuerySchema,
+  findBansQuerySchema,
+  findTokensQuerySchema,
+  updateRoleBodySchema,
+  updateStatusBodySchema,
+  updateVisibilityBodySchema,
+} from "../schema";
+import { requireAuth } from "@/middlewares/auth";
+import { requireRole } from "@/middlewares/role";
+import { validate } from "@/middlewares/validate";
+
+const router = Router();
+
+router.use(requireAuth, requireRole("admin", "moderator"));
+
+/* ------------------------- moderators and admins ------------------------- */
+router.get("/tokens", validate({ query: findTokensQuerySchema }), findTokens);
+router.get(
+  "/tokens/:contractAddress/reports",
+  validate({ params: contractParamsSchema }),
+  findReports
+);
+router.patch(
+  "/tokens/:contractAddress/status",
+  validate({ params: contractParamsSchema, body: updateStatusBodySchema }),
+  updateTokenStatus
+);
+router.patch(
+  "/tokens/:contractAddress/visibility",
+  validate({ params: contractParamsSchema, body: updateVisibilityBodySchema }),
+  updateTokenVisibility
+);
+router.post(
+  "/tokens/:contractAddress/dismiss",
+  validate({ params: contractParamsSchema }),
+  dismissToken
+);
+router.get("/audit-log", validate({ query: findAuditLogQuerySchema }), findAuditLog);
+
+/* ------------------------------- admins only ------------------------------ */
+router.get("/bans", requireRole("admin"), validate({ query: findBansQuerySchema }), findBans);
+router.post("/bans", requireRole("admin"), validate({ body: createBanBodySchema }), createBan);
+router.delete(
+  "/bans/:address",
+  requireRole("admin"),
+  validate({ params: addressParamsSchema }),
+  deleteBan
+);
+router.patch(
+  "/accounts/:address/role",
+  requireRole("admin"),
+  validate({ params: addressParamsSchema, body: updateRoleBodySchema }),
+  updateAccountRole
+);
+
+export { router };
@@ -0,0 +1,61 @@
+import { z } from "zod";
+import { getAddress } from "viem";
+import { addressSchema } from "@shared/schemas/common";
+import { ROLE } from "@services/account/model";
+
+const checksummed = addressSchema.transform((value) => getAddress(value));
+
+const pageSchema = {
+  page: z.coerce.number().int().positive().default(1),
+  limit: z.coerce.number().int().positive().max(100).default(20),
+};
+
+export const contractParamsSchema = z.object({
+  contractAddress: checksummed,
+});
+
+export const addressParamsSchema = z.object({
+  address: checksummed,
+});
+
+export const findTokensQuerySchema = z.object({
+  filter: z.enum(["flagged", "inactive", "all"]).default("flagged"),
+  ...pageSchema,
+});
+
+export const updateStatusBodySchema = z.object({
+  status: z.enum(["active", "inactive"]),
+});
+
+export const updateVisibilityBodySchema = z
+  .object({
+    descriptionHidden: z.boolean().optional(),
+    embedHidden: z.boolean().optional(),
+  })
+  .refine((body) => body.descriptionHidden !== undefined || body.embedHidden !== undefined, {
+    message: "Set descriptionHidden or embedHidden",
+  });
+
+export const createBanBodySchema = z.object({
+  address: checksummed,
+  reason: z.string().trim().max(500).optional(),
+});
+
+export const updateRoleBodySchema = z.object({
+  role: z.enum(ROLE),
+});
+
+export const findAuditLogQuerySchema = z.object({
+  target: z.string().trim().optional(),
+  ...pageSchema,
+});
+
+export const findBansQuerySchema = z.object(pageSchema);
+
+export type FindTokensQuery = z.infer<typeof findTokensQuerySchema>;
+export type UpdateStatusBody = z.infer<typeof updateStatusBodySchema>;
+export type UpdateVisibilityBody = z.infer<typeof updateVisibilityBodySchema>;
+export type CreateBanBody = z.infer<typeof createBanBodySchema>;
+export type UpdateRoleBody = z.infer<typeof updateRoleBodySchema>;
+export type FindAuditLogQuery = z.infer<typeof findAuditLogQuerySchema>;
+export type FindBansQuery = z.infer<typeof findBansQuerySchema>;
@@ -0,0 +1,123 @@
+import { Request, Response } from "express";
+import { MarketModel } from "../model";
+import { TokenModel } from "@services/tokens/model";
+import type { FindCandlesQuery } from "../schema";
+
+/** bucket size in seconds for every interval the chart toggle offers */
+export const CANDLE_INTERVALS: Record<string, number> = {
+  "1m": 60,
+  "5m": 5 * 60,
+  "30m": 30 * 60,
+  "1h": 60 * 60,
+  "4h": 4 * 60 * 60,
+  "1w": 7 * 24 * 60 * 60,
+};
+
+const MAX_CANDLES = 500;
+
+type Candle = {
+  time: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+};
+
+/**
+ * Buckets without trades are filled with a flat candle at the previous close so the chart keeps a
+ * continuous time axis. Nothing is emitted before the first known price.
+ */
+const fillGaps = (
+  candles: Candle[],
+  start: number,
+  end: number,
+  bucket: number,
+  previousClose?: number
+) => {
+  const byTime = new Map(candles.map((candle) => [candle.time, candle]));
+  const filled: Candle[] = [];
+  let lastClose = previousClose;
+
+  for (let time = start; time <= end; time += bucket) {
+    const candle = byTime.get(time);
+    if (candle) {
+      filled.push(candle);
+      lastClose = candle.close;
+    } else if (lastClose !== undefined) {
+      filled.push({
+        time,
+        open: lastClose,
+        high: lastClose,
+        low: lastClose,
+        close: lastClose,
+        volume: 0,
+      });
+    }
+  }
+
+  return filled;
+};
+
+export const findCandles = async (req: Request, res: Response) => {
+  try {
+    const { interval, ...query } = req.query as unknown as FindCandlesQuery;
+    const bucket = CANDLE_INTERVALS[interval];
+
+    const to = query.to || Math.floor(Date.now() / 1000);
+    const from = Math.max(query.from || 0, to - bucket * MAX_CANDLES);
+
+    const token = await TokenModel.findOne({ contractAddress: req.params.contractAddress });
+    if (!token) {
+      res.status(404).json({ message: "Token not found." });
+      return;
+    }
+
+    const candles: Candle[] = await MarketModel.aggregate([
+      {
+        $match: {
+          tokenId: token._id,
+          timestamp: { $gte: new Date(from * 1000), $lte: new Date(to * 1000) },
+        },
+      },
+      { $sort: { blockNumber: 1, logIndex: 1 } },
+      {
+        $group: {
+          _id: {
+            $multiply: [
+              { $floor: { $divide: [{ $toLong: "$timestamp" }, bucket * 1000] } },
+              bucket,
+            ],
+          },
+          open: { $first: "$price" },
+          high: { $max: "$price" },
+          low: { $min: "$price" },
+          close: { $last: "$price" },
+          volume: { $sum: "$volume" },
+        },
+      },
+      { $sort: { _id: 1 } },
+      {
+        $project: { _id: 0, time: "$_id", open: 1, high: 1, low: 1, close: 1, volume: 1 },
+      },
+    ]);
+
+    const previousTrade = await MarketModel.findOne({
+      tokenId: token._id,
+      timestamp: { $lt: new Date(from * 1000) },
+    })
+      .sort({ blockNumber: -1, logIndex: -1 })
+      .select("price");
+
+    const start = Math.floor(from / bucket) * bucket;
+    const end = Math.floor(to / bucket) * bucket;
+
+    res.status(200).json({
+      interval,
+      candles: fillGaps(candles, start, end, bucket, previousTrade?.price),
+    });
+  } catch (error) {
+    console.error("Error fetching candles:", error);
+    res.status(500).json({ message: "Failed to fetch candles." });
+  }
+};
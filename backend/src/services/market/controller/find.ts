@@ -1,12 +1,55 @@
 import { Request, Response } from "express";
 import { MarketModel } from "../model";
+import { TokenModel } from "@services/tokens/model";
+import type { FindTradesQuery } from "../schema";
 
 export const findItems = async (req: Request, res: Response) => {
-    try {
-        const items = await MarketModel.find();
-        res.status(200).json(items);
-    } catch (error) {
-        console.error("Error fetching items:", error);
-        res.status(500).json({ message: "Failed to fetch items." });
+  try {
+    const items = await MarketModel.find();
+    res.status(200).json(items);
+  } catch (error) {
+    console.error("Error fetching items:", error);
+    res.status(500).json({ message: "Failed to fetch items." });
+  }
+};
+
+export const findTrades = async (req: Request, res: Response) => {
+  try {
+    const { page, limit, side, wallet, from, to } = req.query as unknown as FindTradesQuery;
+
+    const token = await TokenModel.findOne({ contractAddress: req.params.contractAddress });
+    if (!token) {
+      res.status(404).json({ message: "Token not found." });
+      return;
     }
+
+    const match: Record<string, unknown> = { tokenId: token._id };
+    if (side) match.type = side;
+    // trades recorded before the indexer may carry a lowercased address
+    if (wallet) match.trader = { $in: [wallet, wallet.toLowerCase()] };
+    if (from || to) {
+      match.timestamp = {
+        ...(from && { $gte: new Date(from * 1000) }),
+        ...(to && { $lte: new Date(to * 1000) }),
+      };
+    }
+
+    const [items, total] = await Promise.all([
+      MarketModel.find(match)
+        .sort({ blockNumber: -1, logIndex: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit),
+      MarketModel.countDocuments(match),
+    ]);
+
+    res.status(200).json({
+      items,
+      page,
+      total,
+      totalPages: Math.max(Math.ceil(total / limit), 1),
+    });
+  } catch (error) {
+    console.error("Error fetching trades:", error);
+    res.status(500).json({ message: "Failed to fetch trades." });
+  }
 };
@@ -1,19 +1,70 @@
 import mongoose, { Schema, Document } from "mongoose";
 
 interface Market extends Document {
-  tokenId: Schema.Types.ObjectId; 
+  tokenId: Schema.Types.ObjectId;
+  contractAddress: string;
+  bondingCurveAddress: string;
+  type: "buy" | "sell";
+  trader: string;
+  /** raw wei amounts, kept as strings so no precision is lost */
+  ethAmount: string;
+  tokenAmount: string;
+  platformFee: string;
+  /** EDU per token, derived from the amounts above */
   price: number;
+  /** EDU traded, derived from ethAmount */
   volume: number;
   timestamp: Date;
   liquidity: number;
+  txHash: string;
+  logIndex: number;
+  blockNumber: number;
+  blockHash: string;
 }
 
 const MarketSchema: Schema = new Schema({
   tokenId: { type: Schema.Types.ObjectId, ref: "Token", required: true },
+  contractAddress: { type: String, required: true },
+  bondingCurveAddress: { type: String, required: true },
+  type: { type: String, required: true, enum: ["buy", "sell"] },
+  trader: { type: String, required: true },
+  ethAmount: { type: String, required: true },
+  tokenAmount: { type: String, required: true },
+  platformFee: { type: String, required: true },
   price: { type: Number, required: true },
   volume: { type: Number, required: true },
   timestamp: { type: Date, required: true },
   liquidity: { type: Number, required: true },
+  txHash: { type: String, required: true },
+  logIndex: { type: Number, required: true },
+  blockNumber: { type: Number, required: true },
+  blockHash: { type: String, required: true },
 });
 
+MarketSchema.index({ txHash: 1, logIndex: 1 }, { unique: true });
+MarketSchema.index({ tokenId: 1, timestamp: -1 });
+MarketSchema.index({ bondingCurveAddress: 1, blockNumber: -1 });
+
 export const MarketModel = mongoose.model<Market>("Market", MarketSchema);
+
+interface IndexerCursor extends Document {
+  bondingCurveAddress: string;
+  blockNumber: number;
+  blockHash: string;
+}
+
+const IndexerCursorSchema: Schema = new Schema(
+  {
+    bondingCurveAddress: { type: String, required: true, unique: true },
+    blockNumber: { type: Number, required: true },
+    blockHash: { type: String, required: true },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+export const IndexerCursorModel = mongoose.model<IndexerCursor>(
+  "IndexerCursor",
+  IndexerCursorSchema
+);
@@ -1,10 +1,21 @@
 import { Router } from "express";
-import { findItems } from "../controller/find";
-import { createItem } from "../controller/create";
+import { findItems, findTrades } from "../controller/find";
+import { findCandles } from "../controller/candles";
+import { contractParamsSchema, findCandlesQuerySchema, findTradesQuerySchema } from "../schema";
+import { validate } from "@/middlewares/validate";
 
 const router = Router();
 
 router.get("/", findItems);
-router.post("/", createItem);
+router.get(
+  "/:contractAddress/candles",
+  validate({ params: contractParamsSchema, query: findCandlesQuerySchema }),
+  findCandles
+);
+router.get(
+  "/:contractAddress/trades",
+  validate({ params: contractParamsSchema, query: findTradesQuerySchema }),
+  findTrades
+);
 
 export { router };
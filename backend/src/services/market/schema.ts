@@ -0,0 +1,33 @@
+import { z } from "zod";
+import { getAddress } from "viem";
+import { addressSchema } from "@shared/schemas/common";
+import { CANDLE_INTERVALS } from "./controller/candles";
+
+const unixSeconds = z.coerce.number().int().nonnegative();
+
+export const contractParamsSchema = z.object({
+  contractAddress: addressSchema,
+});
+
+export const findCandlesQuerySchema = z.object({
+  interval: z
+    .string()
+    .refine((interval) => interval in CANDLE_INTERVALS, {
+      message: `Unsupported interval, expected one of: ${Object.keys(CANDLE_INTERVALS).join(", ")}`,
+    })
+    .default("1h"),
+  from: unixSeconds.optional(),
+  to: unixSeconds.optional(),
+});
+
+export const findTradesQuerySchema = z.object({
+  page: z.coerce.number().int().positive().default(1),
+  limit: z.coerce.number().int().positive().max(100).default(10),
+  side: z.enum(["buy", "sell"]).optional(),
+  wallet: addressSchema.transform((value) => getAddress(value)).optional(),
+  from: unixSeconds.optional(),
+  to: unixSeconds.optional(),
+});
+
+export type FindCandlesQuery = z.infer<typeof findCandlesQuerySchema>;
+export type FindTradesQuery = z.infer<typeof findTradesQuerySchema>;
@@ -1,43 +1,61 @@
-import { extractIframeSrc } from "@/utils/helper";
+import { parseSocialUrl } from "@/utils/social";
+import { embedSrc } from "@shared/schemas/token";
 import { TokenModel } from "../model";
-import { pinata } from "@packages/pinata";
+import type { CreateItemBody } from "../schema";
+import { CreationVerificationError, verifyCreation } from "../verify";
+import { uploadPublicFile } from "@packages/pinata";
+import { Account } from "@services/account/model";
+import { isBanned } from "@services/admin/model";
+import { isDuplicateKeyError } from "@/utils/helper";
 import { Request, Response } from "express";
 
+/** drops tracking params from known embeds and keeps anything else untouched */
+const toEmbedUrl = (src: string | null) => (src && parseSocialUrl(src)?.embedUrl) || src;
+
+const ALREADY_LISTED = "Token already listed.";
+
 export const createItem = async (req: Request, res: Response) => {
   try {
     const file = req.file;
-    const jsonData = JSON.parse(req.body.payload);
+    const { payload } = req.body as CreateItemBody;
 
-    // if (!file) res.status(400).json({ error: "Image file missing" });
-    if (!jsonData) res.status(400).json({ error: "Payload field missing" });
+    if (await isBanned(req.auth!.address)) {
+      res.status(403).json({ message: "This address is banned from listing tokens." });
+      return;
+    }
 
-    let imageUrl = "";
-    if (file) {
-      const pinataFile = new File([file!.buffer], file!.originalname, {
-        type: file!.mimetype,
-      });
-      const upload = await pinata.upload.public.file(pinataFile);
+    const verified = await verifyCreation({ ...payload, creatorAddress: req.auth!.address });
 
-      /* --------------------- this one should be saved to db --------------------- */
-      imageUrl = await pinata.gateways.public.convert(upload.cid);
+    // the address doubles as the token's URL, so it stays unique across chains
+    if (await TokenModel.exists({ contractAddress: verified.contractAddress })) {
+      res.status(409).json({ message: ALREADY_LISTED });
+      return;
     }
 
-    // res.status(200).json({
-    //   message: "Received",
-    //   upload,
-    //   urlPinata,
-    //   iframeParser: extractIframeSrc(req.body.iframe),
-    // });
+    const imageUrl = file ? await uploadPublicFile(file) : "";
 
     const newItem = new TokenModel({
-      ...jsonData,
+      ...payload,
+      ...verified,
       imageUrl,
-      bondingCurveAddress: jsonData.bondingCurveAddress,
-      postUrl: extractIframeSrc(jsonData.embedCode),
+      postUrl: toEmbedUrl(embedSrc(payload.embedCode)),
     });
     await newItem.save();
+    await Account.updateOne(
+      { address: req.auth!.address, role: "user" },
+      { $set: { role: "creator" } }
+    );
     res.status(201).json(newItem);
   } catch (error) {
+    if (error instanceof CreationVerificationError) {
+      res.status(400).json({ message: error.message });
+      return;
+    }
+    // a concurrent listing of the same token that got past the exists check above
+    if (isDuplicateKeyError(error)) {
+      res.status(409).json({ message: ALREADY_LISTED });
+      return;
+    }
     console.error("Error creating item:", error);
     res.status(500).json({ message: "Failed to create item." });
   }
@@ -1,64 +1,206 @@
 import { Request, Response } from "express";
-import { TokenModel } from "../model";
+import { TokenModel, toPublicToken } from "../model";
+import type { FindItemsQuery, SuggestItemsQuery } from "../schema";
+import { cursorMatch, decodeCursor, encodeCursor } from "@/utils/cursor";
+import { escapeRegex } from "@/utils/helper";
+import { parseSocialUrl } from "@/utils/social";
 
 const LIMIT = 6;
 
+/** every mode ends on `_id` so equal values keep a stable order between pages */
+export const SORT_MODES: Record<string, Record<string, 1 | -1>> = {
+  newest: { createdAt: -1, _id: -1 },
+  trending: { volume24h: -1, createdAt: -1, _id: -1 },
+  marketCap: { marketCap: -1, _id: -1 },
+  // every curve graduates at the same threshold, so the biggest ungraduated caps are the closest
+  graduation: { marketCap: -1, _id: -1 },
+  // only valid together with `q`: exact ticker/address hits first, then text relevance
+  relevance: { exact: -1, score: -1, _id: -1 },
+};
+
+const SUGGEST_LIMIT = 8;
+
+/** lowercased search term without the `$` people tend to put in front of tickers */
+const normalizeTerm = (term: string) => term.trim().replace(/^\$/, "").toLowerCase();
+
+const exactMatchExpr = (term: string) => ({
+  $cond: [
+    {
+      $or: [
+        { $eq: [{ $toLower: { $ltrim: { input: "$ticker", chars: { $literal: "$" } } } }, term] },
+        { $eq: [{ $toLower: { $ifNull: ["$contractAddress", ""] } }, term] },
+      ],
+    },
+    1,
+    0,
+  ],
+});
+
 export const findItems = async (req: Request, res: Response) => {
   try {
-    const searchTerm = req.query.q as string;
-    const page = parseInt(req.query.page as string) || 1;
-    // let items;
-
-    const skip = (page - 1) * LIMIT;
-    const limit = LIMIT * 1;
-
-    const pipeline: any[] = [];
-    let matchStage = {};
-
-    if (searchTerm) {
-      matchStage = {
-        $or: [
-          { name: { $regex: searchTerm, $options: "i" } },
-          { description: { $regex: searchTerm, $options: "i" } },
-        ],
-      };
-      pipeline.push({ $match: matchStage });
+    const {
+      q: searchTerm,
+      cursor,
+      graduated,
+      creator,
+      chainId,
+      ...query
+    } = req.query as unknown as FindItemsQuery;
+    const sort = query.sort || (searchTerm ? "relevance" : "newest");
+
+    const spec = SORT_MODES[sort];
+    const after = cursor ? decodeCursor(cursor, sort, spec) : undefined;
+    if (after === null) {
+      res.status(400).json({ message: "Invalid cursor." });
+      return;
     }
 
-    pipeline.push({
-      $sort: {
-        createdAt: -1,
-      },
-    });
+    // deactivated tokens only show up in the moderation console, flagged ones wait for a moderator
+    const matchStage: Record<string, unknown> = { status: "active", flagged: { $ne: true } };
 
-    if (!searchTerm) {
-      pipeline.push({ $skip: skip }, { $limit: limit });
+    if (sort === "graduation") matchStage.hasGraduated = false;
+    if (graduated !== undefined) matchStage.hasGraduated = graduated;
+    if (creator) {
+      matchStage.creatorAddress = creator;
+      matchStage.creatorUnverified = { $ne: true };
     }
+    if (chainId) matchStage.chainId = chainId;
 
-    const items = await TokenModel.aggregate(pipeline);
+    // a pasted post link resolves to the campaign that embeds it instead of a text search
+    const socialPost = searchTerm ? parseSocialUrl(searchTerm) : null;
+    if (socialPost) {
+      matchStage.embedHidden = { $ne: true };
+      matchStage.$or = [
+        { postKey: socialPost.key },
+        // tokens listed before postKey existed only have the raw embed src
+        { postKey: { $exists: false }, postUrl: { $regex: escapeRegex(socialPost.id) } },
+      ];
+    } else if (searchTerm) {
+      matchStage.$text = { $search: searchTerm };
+    }
+
+    const pipeline: any[] = [{ $match: matchStage }];
 
-    const totalPage = Math.ceil(
-      (await TokenModel.countDocuments(searchTerm ? matchStage : {})) / limit
+    if (sort === "relevance" && socialPost) {
+      pipeline.push({ $addFields: { score: { $literal: 0 }, exact: { $literal: 1 } } });
+    } else if (sort === "relevance") {
+      pipeline.push({
+        $addFields: {
+          score: { $meta: "textScore" },
+          exact: exactMatchExpr(normalizeTerm(searchTerm!)),
+        },
+      });
+    }
+
+    // the cursor runs after $addFields so relevance pages can key on the computed fields
+    if (after) pipeline.push({ $match: cursorMatch(spec, after) });
+
+    pipeline.push(
+      { $sort: spec },
+      // one extra row tells us whether another page exists without a count query
+      { $limit: LIMIT + 1 }
     );
-    const shouldLoadMore = totalPage >= page + 1;
 
-    res.status(200).json({ items, shouldLoadMore: searchTerm ? false : shouldLoadMore });
+    const items = await TokenModel.aggregate(pipeline);
+    const hasMore = items.length > LIMIT;
+    if (hasMore) items.pop();
+
+    res.status(200).json({
+      items: items.map(toPublicToken),
+      nextCursor: hasMore ? encodeCursor(sort, spec, items[items.length - 1]) : null,
+      ...(socialPost && { resolvedUrl: socialPost.embedUrl }),
+    });
   } catch (error) {
     console.error("Error fetching items:", error);
     res.status(500).json({ message: "Failed to fetch items." });
   }
 };
 
-export const findItemByContract = async (req: Request, res: Response) => {
-  const token = await TokenModel.findOne({ contractAddress: req.params.contractAddress });
+export const suggestItems = async (req: Request, res: Response) => {
+  try {
+    const { q } = req.query as unknown as SuggestItemsQuery;
+    const term = normalizeTerm(q || "");
+    if (!term) {
+      res.status(200).json([]);
+      return;
+    }
 
-  if (!token) throw new Error("No slug found for Article");
+    const prefix = new RegExp(`^\\$?${escapeRegex(term)}`, "i");
+    const items = await TokenModel.aggregate([
+      {
+        $match: {
+          status: "active",
+          flagged: { $ne: true },
+          $or: [
+            { ticker: prefix },
+            { name: prefix },
+            { contractAddress: new RegExp(`^${escapeRegex(term)}$`, "i") },
+          ],
+        },
+      },
+      { $addFields: { exact: exactMatchExpr(term) } },
+      { $sort: { exact: -1, marketCap: -1, _id: -1 } },
+      { $limit: SUGGEST_LIMIT },
+      { $project: { name: 1, ticker: 1, contractAddress: 1, imageUrl: 1, marketCap: 1 } },
+    ]);
 
-  res.status(200).json(token);
+    res.status(200).json(items);
+  } catch (error) {
+    console.error("Error fetching suggestions:", error);
+    res.status(500).json({ message: "Failed to fetch suggestions." });
+  }
+};
+
+export const findItemByContract = async (req: Request, res: Response) => {
+  try {
+    const token = await TokenModel.findOne({ contractAddress: req.params.contractAddress }).lean();
+    if (!token) {
+      res.status(404).json({ message: "Token not found." });
+      return;
+    }
+    // a deactivated token loses its page too, not just its place in the listings
+    if (token.status !== "active") {
+      res.status(404).json({ message: "This token was removed by moderators." });
+      return;
+    }
+
+    res.status(200).json(toPublicToken(token));
+  } catch (error) {
+    console.error("Error fetching item:", error);
+    res.status(500).json({ message: "Failed to fetch item." });
+  }
 };
 
+/** what the site-wide ticker shows, so only tokens that are listed publicly */
 export const allItemsOnlyName = async (req: Request, res: Response) => {
-  const token = await TokenModel.find().select("ticker");
+  try {
+    const tokens = await TokenModel.find({ status: "active", flagged: { $ne: true } })
+      .select(
+        "name ticker chainId contractAddress bondingCurveAddress marketCap price priceChange24h"
+      )
+      .sort({ marketCap: -1 });
+
+    res.status(200).json(tokens);
+  } catch (error) {
+    console.error("Error fetching ticker list:", error);
+    res.status(500).json({ message: "Failed to fetch ticker list." });
+  }
+};
+
+/**
+ * every token with a curve, moderated or not: a wallet must still be able to revoke an allowance
+ * it gave to a curve that was taken down
+ */
+export const allCurves = async (req: Request, res: Response) => {
+  try {
+    const tokens = await TokenModel.find({
+      contractAddress: { $exists: true, $ne: "" },
+      bondingCurveAddress: { $exists: true, $ne: "" },
+    }).select("name ticker chainId contractAddress bondingCurveAddress");
 
-  res.status(200).json(token);
+    res.status(200).json(tokens);
+  } catch (error) {
+    console.error("Error fetching curves:", error);
+    res.status(500).json({ message: "Failed to fetch curves." });
+  }
 };
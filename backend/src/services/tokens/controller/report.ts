@@ -0,0 +1,66 @@
+import CONFIG from "@/config";
+import { Request, Response } from "express";
+import { isDuplicateKeyError } from "@/utils/helper";
+import { ReportModel, TokenModel } from "../model";
+import type { CreateReport } from "@shared/schemas/report";
+
+const ALREADY_REPORTED = "You already reported this token.";
+
+export const createReport = async (req: Request, res: Response) => {
+  try {
+    const { reason, details } = req.body as CreateReport;
+    const reporter = req.auth!.address;
+
+    const token = await TokenModel.findOne({ contractAddress: req.params.contractAddress });
+    if (!token) {
+      res.status(404).json({ message: "Token not found." });
+      return;
+    }
+
+    if (await ReportModel.exists({ tokenId: token._id, reporter })) {
+      res.status(409).json({ message: ALREADY_REPORTED });
+      return;
+    }
+
+    const recentReports = await ReportModel.countDocuments({
+      reporter,
+      createdAt: { $gte: new Date(Date.now() - CONFIG.REPORT_RATE_WINDOW * 1000) },
+    });
+    if (recentReports >= CONFIG.REPORT_RATE_LIMIT) {
+      res.status(429).json({ message: "Too many reports, try again later." });
+      return;
+    }
+
+    const report = await ReportModel.create({
+      tokenId: token._id,
+      contractAddress: token.contractAddress,
+      reporter,
+      reason,
+      details,
+    });
+
+    // flag once the threshold is crossed; flagged tokens drop out of discovery until reviewed
+    const counted = await TokenModel.findOneAndUpdate(
+      { _id: token._id },
+      { $inc: { reportCount: 1 } },
+      { new: true }
+    ).select("reportCount flagged");
+    // tokens listed before moderation have no `flagged` field at all, hence $ne rather than false
+    if (counted && !counted.flagged && counted.reportCount >= CONFIG.REPORT_THRESHOLD) {
+      await TokenModel.updateOne(
+        { _id: token._id, flagged: { $ne: true } },
+        { $set: { flagged: true, flaggedAt: new Date() } }
+      );
+    }
+
+    res.status(201).json(report);
+  } catch (error) {
+    // a second report racing past the exists check above trips the unique index instead
+    if (isDuplicateKeyError(error)) {
+      res.status(409).json({ message: ALREADY_REPORTED });
+      return;
+    }
+    console.error("Error creating report:", error);
+    res.status(500).json({ message: "Failed to create report." });
+  }
+};
@@ -1,16 +1,41 @@
 import mongoose, { Schema, Document } from "mongoose";
+import { parseSocialUrl } from "@/utils/social";
+import { CHAIN_IDS, DEFAULT_CHAIN_ID } from "@shared/chains";
+import { REPORT_REASONS, type ReportReason } from "@shared/schemas/report";
 
-interface IToken extends Document {
+export interface IToken extends Document {
   name: string;
   ticker: string;
   description: string;
   initialBuyPerToken?: number;
   marketCap: number;
+  price: number;
+  volume24h: number;
+  priceChange24h: number;
+  statsUpdatedAt?: Date;
+  /** network the token and its curve live on, see `@shared/chains` */
+  chainId: number;
   contractAddress?: string;
   bondingCurveAddress?: string;
   donationAddress?: string;
+  creatorAddress?: string;
+  creationTxHash?: string;
+  /** listed before verification and no `TokenCreated` event matched, `creatorAddress` is unproven */
+  creatorUnverified?: boolean;
   status: "active" | "inactive";
+  /** waiting for a moderator to look at it */
+  flagged: boolean;
+  flaggedAt?: Date;
+  /** reports filed since the last moderator review */
+  reportCount: number;
+  descriptionHidden: boolean;
+  embedHidden: boolean;
   imageUrl?: string;
+  postUrl?: string;
+  postKey?: string;
+  hasGraduated: boolean;
+  graduatedAt?: Date;
+  graduatedBlockNumber?: number;
   socialLinks?: {
     website?: string;
     twitter?: string;
@@ -27,18 +52,36 @@ const TokenSchema: Schema = new Schema({
   initialBuyPerToken: { type: Number },
   marketCap: {
     type: Number,
+    default: 0,
   },
+  price: { type: Number, default: 0 },
+  volume24h: { type: Number, default: 0 },
+  priceChange24h: { type: Number, default: 0 },
+  statsUpdatedAt: { type: Date },
+  chainId: { type: Number, required: true, enum: CHAIN_IDS, default: DEFAULT_CHAIN_ID },
   contractAddress: { type: String },
   bondingCurveAddress: { type: String },
   donationAddress: { type: String },
+  creatorAddress: { type: String },
+  creationTxHash: { type: String },
+  creatorUnverified: { type: Boolean },
   status: {
     type: String,
     required: true,
     enum: ["active", "inactive"],
     default: "active",
   },
+  flagged: { type: Boolean, default: false },
+  flaggedAt: { type: Date },
+  reportCount: { type: Number, default: 0 },
+  descriptionHidden: { type: Boolean, default: false },
+  embedHidden: { type: Boolean, default: false },
   imageUrl: { type: String },
+  hasGraduated: { type: Boolean, default: false },
+  graduatedAt: { type: Date },
+  graduatedBlockNumber: { type: Number },
   postUrl: { type: String },
+  postKey: { type: String, index: true },
   // socialLinks: {
   //   website: { type: String },
   //   twitter: { type: String },
@@ -48,9 +91,68 @@ const TokenSchema: Schema = new Schema({
   updatedAt: { type: Date, default: Date.now },
 });
 
+TokenSchema.index({ status: 1, createdAt: -1 });
+TokenSchema.index({ status: 1, volume24h: -1 });
+TokenSchema.index({ status: 1, marketCap: -1 });
+TokenSchema.index({ creatorAddress: 1 });
+TokenSchema.index({ flagged: 1, flaggedAt: -1 });
+// one listing per token; legacy drafts saved with an empty address stay out of the index
+TokenSchema.index(
+  { contractAddress: 1 },
+  {
+    name: "contractAddress_unique",
+    unique: true,
+    partialFilterExpression: { contractAddress: { $type: "string", $gt: "" } },
+  }
+);
+TokenSchema.index({ chainId: 1, status: 1, createdAt: -1 });
+TokenSchema.index(
+  { name: "text", ticker: "text", description: "text", contractAddress: "text" },
+  {
+    name: "token_search",
+    weights: { ticker: 10, contractAddress: 10, name: 5, description: 1 },
+  }
+);
+
 TokenSchema.pre("save", function (next) {
   this.updatedAt = new Date();
+  if (this.isModified("postUrl")) {
+    this.postKey = parseSocialUrl(String(this.postUrl ?? ""))?.key;
+  }
   next();
 });
 
 export const TokenModel = mongoose.model<IToken>("Token", TokenSchema);
+
+/** what the public API shows of a token, with anything moderators hid blanked out */
+export const toPublicToken = <T extends Partial<IToken>>(token: T) => ({
+  ...token,
+  description: token.descriptionHidden ? "" : token.description,
+  postUrl: token.embedHidden ? undefined : token.postUrl,
+  postKey: token.embedHidden ? undefined : token.postKey,
+  creatorAddress: token.creatorUnverified ? undefined : token.creatorAddress,
+});
+
+interface Report extends Document {
+  tokenId: Schema.Types.ObjectId;
+  contractAddress: string;
+  reporter: string;
+  reason: ReportReason;
+  details?: string;
+  createdAt: Date;
+}
+
+const ReportSchema: Schema = new Schema({
+  tokenId: { type: Schema.Types.ObjectId, ref: "Token", required: true },
+  contractAddress: { type: String, required: true },
+  reporter: { type: String, required: true },
+  reason: { type: String, required: true, enum: Object.keys(REPORT_REASONS) },
+  details: { type: String },
+  createdAt: { type: Date, default: Date.now },
+});
+
+// one report per wallet and token, repeating it would only inflate the count
+ReportSchema.index({ tokenId: 1, reporter: 1 }, { unique: true });
+ReportSchema.index({ reporter: 1, createdAt: -1 });
+
+export const ReportModel = mongoose.model<Report>("Report", ReportSchema);
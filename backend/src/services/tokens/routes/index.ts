@@ -1,15 +1,43 @@
 import { Router } from "express";
-import { allItemsOnlyName, findItemByContract, findItems } from "../controller/find";
+import {
+  allCurves,
+  allItemsOnlyName,
+  findItemByContract,
+  findItems,
+  suggestItems,
+} from "../controller/find";
 import { createItem } from "../controller/create";
-import multer from "multer";
+import { createReport } from "../controller/report";
+import { createReportSchema } from "@shared/schemas/report";
+import {
+  contractParamsSchema,
+  createItemBodySchema,
+  findItemsQuerySchema,
+  suggestItemsQuerySchema,
+} from "../schema";
+import { requireAuth } from "@/middlewares/auth";
+import { imageUpload } from "@/middlewares/upload";
+import { validate } from "@/middlewares/validate";
 
 const router = Router();
 
-const upload = multer({ storage: multer.memoryStorage() });
-
-router.get("/:contractAddress", findItemByContract);
-router.get("/", findItems);
+router.get("/suggest", validate({ query: suggestItemsQuerySchema }), suggestItems);
+router.get("/:contractAddress", validate({ params: contractParamsSchema }), findItemByContract);
+router.get("/", validate({ query: findItemsQuerySchema }), findItems);
 router.get("/ticker/list", allItemsOnlyName);
-router.post("/", upload.single("image"), createItem);
+router.get("/curves/list", allCurves);
+router.post(
+  "/",
+  requireAuth,
+  imageUpload("image"),
+  validate({ body: createItemBodySchema }),
+  createItem
+);
+router.post(
+  "/:contractAddress/reports",
+  requireAuth,
+  validate({ params: contractParamsSchema, body: createReportSchema }),
+  createReport
+);
 
 export { router };
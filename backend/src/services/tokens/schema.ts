@@ -0,0 +1,51 @@
+import { z } from "zod";
+import { getAddress } from "viem";
+import { addressSchema, chainIdSchema } from "@shared/schemas/common";
+import { createTokenSchema } from "@shared/schemas/token";
+import { SORT_MODES } from "./controller/find";
+import { jsonPayload } from "@/utils/schema";
+
+const searchTerm = z
+  .string()
+  .trim()
+  .max(200, "q must be at most 200 characters")
+  .optional()
+  .transform((value) => value || undefined);
+
+export const contractParamsSchema = z.object({
+  contractAddress: addressSchema,
+});
+
+export const findItemsQuerySchema = z
+  .object({
+    q: searchTerm,
+    cursor: z.string().optional(),
+    sort: z
+      .string()
+      .refine((sort) => sort in SORT_MODES, {
+        message: `Unsupported sort, expected one of: ${Object.keys(SORT_MODES).join(", ")}`,
+      })
+      .optional(),
+    graduated: z
+      .enum(["true", "false"])
+      .transform((value) => value === "true")
+      .optional(),
+    creator: addressSchema.transform((value) => getAddress(value)).optional(),
+    chainId: chainIdSchema.optional(),
+  })
+  .refine((query) => query.sort !== "relevance" || query.q, {
+    message: "relevance sort requires q",
+    path: ["sort"],
+  });
+
+export const suggestItemsQuerySchema = z.object({
+  q: searchTerm,
+});
+
+export const createItemBodySchema = z.object({
+  payload: jsonPayload(createTokenSchema),
+});
+
+export type FindItemsQuery = z.infer<typeof findItemsQuerySchema>;
+export type SuggestItemsQuery = z.infer<typeof suggestItemsQuerySchema>;
+export type CreateItemBody = z.infer<typeof createItemBodySchema>;
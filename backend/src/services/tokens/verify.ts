@@ -0,0 +1,63 @@
+import { TOKEN_LAUNCHER_ABI } from "@/constants/TOKEN_LAUNCHER_ABI";
+import { getPublicClient } from "@packages/viem";
+import { getChain } from "@shared/chains";
+import { isAddressEqual, parseEventLogs, type Address, type Hash } from "viem";
+
+const RECEIPT_TIMEOUT = 30_000;
+
+export class CreationVerificationError extends Error {}
+
+type Creation = {
+  chainId: number;
+  creationTxHash: string;
+  contractAddress: string;
+  bondingCurveAddress: string;
+  creatorAddress: string;
+};
+
+/**
+ * Checks that `creationTxHash` is a successful `createToken` call on the launcher of `chainId` that
+ * deployed exactly this token/curve pair, and that `creatorAddress` is the wallet that sent it.
+ * Resolves with the checksummed addresses as emitted on chain.
+ */
+export const verifyCreation = async (creation: Creation) => {
+  const { launcherAddress } = getChain(creation.chainId);
+  const receipt = await getPublicClient(creation.chainId)
+    .waitForTransactionReceipt({ hash: creation.creationTxHash as Hash, timeout: RECEIPT_TIMEOUT })
+    .catch(() => {
+      throw new CreationVerificationError("Creation transaction not found.");
+    });
+
+  if (receipt.status !== "success") {
+    throw new CreationVerificationError("Creation transaction reverted.");
+  }
+
+  const logs = parseEventLogs({ abi: TOKEN_LAUNCHER_ABI, logs: receipt.logs }).filter((log) =>
+    isAddressEqual(log.address, launcherAddress)
+  );
+  const tokenCreated = logs.find((log) => log.eventName === "TokenCreated");
+  const curveCreated = logs.find((log) => log.eventName === "BondingCurveCreated");
+
+  if (!tokenCreated || !curveCreated) {
+    throw new CreationVerificationError("Transaction did not create a token on the launcher.");
+  }
+
+  const { tokenAddress, deployer } = tokenCreated.args;
+  const { bondingCurveAddress } = curveCreated.args;
+
+  if (
+    !isAddressEqual(tokenAddress, creation.contractAddress as Address) ||
+    !isAddressEqual(curveCreated.args.tokenAddress, tokenAddress) ||
+    !isAddressEqual(bondingCurveAddress, creation.bondingCurveAddress as Address)
+  ) {
+    throw new CreationVerificationError(
+      "Token or bonding curve address does not match the transaction."
+    );
+  }
+
+  if (!isAddressEqual(deployer, creation.creatorAddress as Address)) {
+    throw new CreationVerificationError("Only the deployer can list this token.");
+  }
+
+  return { contractAddress: tokenAddress, bondingCurveAddress, creatorAddress: deployer };
+};
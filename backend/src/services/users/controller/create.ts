@@ -1,13 +1,92 @@
 import { Request, Response } from "express";
-import { UserModel } from "../model";
+import { TokenModel } from "@services/tokens/model";
+import { isDuplicateKeyError, retryOnDuplicateKey } from "@/utils/helper";
+import { FollowModel, UserModel } from "../model";
 
 export const createItem = async (req: Request, res: Response) => {
     try {
-        const newItem = new UserModel(req.body);
-        await newItem.save();
-        res.status(201).json(newItem);
+        // signing in already created the user, this only fills in the rest of the profile
+        const item = await retryOnDuplicateKey(() =>
+            UserModel.findOneAndUpdate(
+                { address: req.auth!.address },
+                { $set: req.body },
+                { upsert: true, new: true }
+            )
+        );
+        res.status(201).json(item);
     } catch (error) {
         console.error("Error creating item:", error);
         res.status(500).json({ message: "Failed to create item." });
     }
 };
+
+/** following is idempotent, counters only move when a new edge is stored */
+export const createFollow = async (req: Request, res: Response) => {
+    try {
+        const { address } = req.params;
+        const follower = req.auth!.address;
+        if (address === follower) {
+            res.status(400).json({ message: "You can't follow yourself." });
+            return;
+        }
+
+        // two concurrent upserts can both miss, the loser trips the unique index: already following
+        const inserted = await FollowModel.updateOne(
+            { follower, following: address },
+            { $setOnInsert: { createdAt: new Date() } },
+            { upsert: true }
+        ).then(
+            (result) => result.upsertedCount > 0,
+            (error) => {
+                if (isDuplicateKeyError(error)) return false;
+                throw error;
+            }
+        );
+        if (inserted) {
+            await Promise.all([
+                retryOnDuplicateKey(() =>
+                    UserModel.updateOne(
+                        { address },
+                        { $inc: { followerCount: 1 } },
+                        { upsert: true }
+                    )
+                ),
+                retryOnDuplicateKey(() =>
+                    UserModel.updateOne(
+                        { address: follower },
+                        { $inc: { followingCount: 1 } },
+                        { upsert: true }
+                    )
+                ),
+            ]);
+        }
+
+        res.status(201).json({ following: true });
+    } catch (error) {
+        console.error("Error following:", error);
+        res.status(500).json({ message: "Failed to follow." });
+    }
+};
+
+export const createWatchlistItem = async (req: Request, res: Response) => {
+    try {
+        const { contractAddress } = req.params;
+        const token = await TokenModel.findOne({ contractAddress }).select("_id");
+        if (!token) {
+            res.status(404).json({ message: "Token not found." });
+            return;
+        }
+
+        await retryOnDuplicateKey(() =>
+            UserModel.updateOne(
+                { address: req.auth!.address },
+                { $addToSet: { watchlist: token._id } },
+                { upsert: true }
+            )
+        );
+        res.status(201).json({ watched: true });
+    } catch (error) {
+        console.error("Error adding to watchlist:", error);
+        res.status(500).json({ message: "Failed to add to watchlist." });
+    }
+};
@@ -0,0 +1,41 @@
+import { Request, Response } from "express";
+import { TokenModel } from "@services/tokens/model";
+import { FollowModel, UserModel } from "../model";
+
+export const deleteFollow = async (req: Request, res: Response) => {
+    try {
+        const { address } = req.params;
+        const follower = req.auth!.address;
+
+        const follow = await FollowModel.findOneAndDelete({ follower, following: address });
+        if (follow) {
+            await Promise.all([
+                UserModel.updateOne({ address }, { $inc: { followerCount: -1 } }),
+                UserModel.updateOne({ address: follower }, { $inc: { followingCount: -1 } }),
+            ]);
+        }
+
+        res.status(200).json({ following: false });
+    } catch (error) {
+        console.error("Error unfollowing:", error);
+        res.status(500).json({ message: "Failed to unfollow." });
+    }
+};
+
+export const deleteWatchlistItem = async (req: Request, res: Response) => {
+    try {
+        const { contractAddress } = req.params;
+        const token = await TokenModel.findOne({ contractAddress }).select("_id");
+
+        if (token) {
+            await UserModel.updateOne(
+                { address: req.auth!.address },
+                { $pull: { watchlist: token._id } }
+            );
+        }
+        res.status(200).json({ watched: false });
+    } catch (error) {
+        console.error("Error removing from watchlist:", error);
+        res.status(500).json({ message: "Failed to remove from watchlist." });
+    }
+};
@@ -1,5 +1,10 @@
 import { Request, Response } from "express";
-import { UserModel } from "../model";
+import { FollowModel, UserModel } from "../model";
+import { buildPortfolio } from "../portfolio";
+import type { FindFollowsQuery } from "../schema";
+import { TokenModel, toPublicToken, type IToken } from "@services/tokens/model";
+import { readCurves } from "@/utils/curve";
+import type { Address } from "viem";
 
 export const findItems = async (req: Request, res: Response) => {
     try {
@@ -10,3 +15,167 @@ export const findItems = async (req: Request, res: Response) => {
         res.status(500).json({ message: "Failed to fetch items." });
     }
 };
+
+/** anyone's profile is public, wallets that never signed in get an empty one */
+export const findItemByAddress = async (req: Request, res: Response) => {
+    try {
+        const { address } = req.params;
+        const item = await UserModel.findOne({ address }).select("-watchlist");
+
+        res.status(200).json(
+            item ?? {
+                address,
+                displayName: "",
+                bio: "",
+                links: [],
+                followerCount: 0,
+                followingCount: 0,
+            }
+        );
+    } catch (error) {
+        console.error("Error fetching item:", error);
+        res.status(500).json({ message: "Failed to fetch item." });
+    }
+};
+
+/** public token documents with market cap, price and graduation read from their curves */
+const withLiveState = async <T extends Partial<IToken> & { _id: unknown }>(tokens: T[]) => {
+    const withCurve = tokens.filter((token) => token.bondingCurveAddress);
+    const states = await readCurves(
+        withCurve.map((token) => ({
+            chainId: token.chainId as number,
+            address: token.bondingCurveAddress as Address,
+        }))
+    );
+    const stateByToken = new Map(withCurve.map((token, i) => [String(token._id), states[i]]));
+
+    return tokens.map((token) => {
+        const state = stateByToken.get(String(token._id));
+        return {
+            ...toPublicToken(token),
+            marketCap: state?.marketCap ?? token.marketCap,
+            price: state?.price ?? token.price,
+            hasGraduated: state?.hasGraduated ?? token.hasGraduated,
+        };
+    });
+};
+
+/** tokens this wallet deployed, with market cap and graduation read live from each curve */
+export const findTokensByAddress = async (req: Request, res: Response) => {
+    try {
+        const { address } = req.params;
+        const tokens = await TokenModel.find({
+            creatorAddress: { $in: [address, address.toLowerCase()] },
+            creatorUnverified: { $ne: true },
+            status: "active",
+        })
+            .sort({ createdAt: -1 })
+            .lean();
+
+        res.status(200).json(await withLiveState(tokens));
+    } catch (error) {
+        console.error("Error fetching created tokens:", error);
+        res.status(500).json({ message: "Failed to fetch created tokens." });
+    }
+};
+
+/** one page of the follow graph around `address`, each wallet with its public profile card */
+const findFollowPage = async (
+    address: string,
+    side: "follower" | "following",
+    { page, limit }: FindFollowsQuery
+) => {
+    // followers of `address` are the edges pointing at it, and the wallet to show is the follower
+    const match = side === "follower" ? { following: address } : { follower: address };
+    const other = side === "follower" ? "follower" : "following";
+
+    const [follows, total] = await Promise.all([
+        FollowModel.find(match)
+            .sort({ createdAt: -1 })
+            .skip((page - 1) * limit)
+            .limit(limit),
+        FollowModel.countDocuments(match),
+    ]);
+
+    const addresses = follows.map((follow) => follow[other]);
+    const users = await UserModel.find({ address: { $in: addresses } }).select(
+        "address displayName avatarUrl followerCount"
+    );
+    const userByAddress = new Map(users.map((user) => [user.address, user]));
+
+    const items = follows.map((follow) => {
+        const user = userByAddress.get(follow[other]);
+        return {
+            address: follow[other],
+            displayName: user?.displayName ?? "",
+            avatarUrl: user?.avatarUrl,
+            followerCount: user?.followerCount ?? 0,
+            followedAt: follow.createdAt,
+        };
+    });
+
+    return { items, page, total, totalPages: Math.max(Math.ceil(total / limit), 1) };
+};
+
+export const findFollowers = async (req: Request, res: Response) => {
+    try {
+        const query = req.query as unknown as FindFollowsQuery;
+        res.status(200).json(await findFollowPage(req.params.address, "follower", query));
+    } catch (error) {
+        console.error("Error fetching followers:", error);
+        res.status(500).json({ message: "Failed to fetch followers." });
+    }
+};
+
+export const findFollowing = async (req: Request, res: Response) => {
+    try {
+        const query = req.query as unknown as FindFollowsQuery;
+        res.status(200).json(await findFollowPage(req.params.address, "following", query));
+    } catch (error) {
+        console.error("Error fetching following:", error);
+        res.status(500).json({ message: "Failed to fetch following." });
+    }
+};
+
+/** whether the signed-in wallet follows `address` */
+export const findFollow = async (req: Request, res: Response) => {
+    try {
+        const follow = await FollowModel.exists({
+            follower: req.auth!.address,
+            following: req.params.address,
+        });
+        res.status(200).json({ following: Boolean(follow) });
+    } catch (error) {
+        console.error("Error fetching follow:", error);
+        res.status(500).json({ message: "Failed to fetch follow." });
+    }
+};
+
+/** the signed-in wallet's starred tokens, priced live from their curves */
+export const findWatchlist = async (req: Request, res: Response) => {
+    try {
+        const user = await UserModel.findOne({ address: req.auth!.address }).select("watchlist");
+        const tokens = await TokenModel.find({
+            _id: { $in: user?.watchlist ?? [] },
+            status: "active",
+        }).lean();
+
+        // newest star first
+        const order = (user?.watchlist ?? []).map((id) => id.toString()).reverse();
+        tokens.sort((a, b) => order.indexOf(a._id.toString()) - order.indexOf(b._id.toString()));
+
+        res.status(200).json(await withLiveState(tokens));
+    } catch (error) {
+        console.error("Error fetching watchlist:", error);
+        res.status(500).json({ message: "Failed to fetch watchlist." });
+    }
+};
+
+export const findPortfolio = async (req: Request, res: Response) => {
+    try {
+        res.status(200).json(await buildPortfolio(req.params.address as Address));
+    } catch (error) {
+        console.error("Error fetching portfolio:", error);
+        res.status(500).json({ message: "Failed to fetch portfolio." });
+    }
+};
@@ -0,0 +1,30 @@
+import { Request, Response } from "express";
+import { uploadPublicFile } from "@packages/pinata";
+import { retryOnDuplicateKey } from "@/utils/helper";
+import { UserModel } from "../model";
+import type { UpdateItemBody } from "../schema";
+
+export const updateItem = async (req: Request, res: Response) => {
+    try {
+        const { address } = req.params;
+        if (address !== req.auth!.address) {
+            res.status(403).json({ message: "You can only edit your own profile." });
+            return;
+        }
+
+        const { payload } = req.body as UpdateItemBody;
+        const avatarUrl = req.file ? await uploadPublicFile(req.file) : undefined;
+
+        const item = await retryOnDuplicateKey(() =>
+            UserModel.findOneAndUpdate(
+                { address },
+                { $set: { ...payload, ...(avatarUrl && { avatarUrl }) } },
+                { upsert: true, new: true }
+            ).select("-watchlist")
+        );
+        res.status(200).json(item);
+    } catch (error) {
+        console.error("Error updating item:", error);
+        res.status(500).json({ message: "Failed to update item." });
+    }
+};
@@ -1,15 +1,59 @@
-import mongoose, { Schema, Document } from "mongoose";
+import mongoose, { Schema, Document, Types } from "mongoose";
+import { getAddress } from "viem";
 
 interface User extends Document {
   address: string;
   username?: string;
-  watchlist: string[];
+  displayName?: string;
+  bio?: string;
+  avatarUrl?: string;
+  links: { label: string; url: string }[];
+  watchlist: Types.ObjectId[];
+  followerCount: number;
+  followingCount: number;
 }
 
 const UserSchema: Schema = new Schema({
-  address: { type: String, required: true },
+  // every upsert keys on it, so it is unique and always stored (and queried) checksummed
+  address: {
+    type: String,
+    required: true,
+    unique: true,
+    set: (value: string) => getAddress(value),
+  },
   username: { type: String },
+  displayName: { type: String },
+  bio: { type: String },
+  avatarUrl: { type: String },
+  links: [
+    {
+      _id: false,
+      label: { type: String, required: true },
+      url: { type: String, required: true },
+    },
+  ],
   watchlist: [{ type: Schema.Types.ObjectId, ref: "Token" }],
+  followerCount: { type: Number, default: 0 },
+  followingCount: { type: Number, default: 0 },
 });
 
 export const UserModel = mongoose.model<User>("User", UserSchema);
+
+interface Follow extends Document {
+  /** checksummed wallet addresses on both ends */
+  follower: string;
+  following: string;
+  createdAt: Date;
+}
+
+const FollowSchema: Schema = new Schema({
+  follower: { type: String, required: true },
+  following: { type: String, required: true },
+  createdAt: { type: Date, default: Date.now },
+});
+
+FollowSchema.index({ follower: 1, following: 1 }, { unique: true });
+FollowSchema.index({ following: 1, createdAt: -1 });
+FollowSchema.index({ follower: 1, createdAt: -1 });
+
+export const FollowModel = mongoose.model<Follow>("Follow", FollowSchema);
@@ -0,0 +1,163 @@
+import CONFIG from "@/config";
+import { MarketModel } from "@services/market/model";
+import { TokenModel } from "@services/tokens/model";
+import { readCurves } from "@/utils/curve";
+import { readBalances } from "@/utils/erc20";
+import { formatEther, type Address } from "viem";
+
+type Ledger = {
+  /** tokens bought on the curve and not sold yet, with what they cost */
+  quantity: bigint;
+  cost: bigint;
+  realized: bigint;
+  /** native coin that stayed in the campaign: buys net of the platform fee, minus sell proceeds */
+  contributed: bigint;
+};
+
+const toNumber = (wei: bigint) => Number(formatEther(wei));
+
+const min = (a: bigint, b: bigint) => (a < b ? a : b);
+
+/**
+ * Replays the wallet's indexed trades per token with average-cost accounting: buys add to the
+ * position at what they cost, sells release cost pro rata and book the difference as realized
+ * PnL. Tokens that didn't come from the curve (deployer allocation, transfers) carry no cost.
+ */
+const replayTrades = async (owner: Address) => {
+  const trades = await MarketModel.find({ trader: { $in: [owner, owner.toLowerCase()] } })
+    .sort({ blockNumber: 1, logIndex: 1 })
+    .select("tokenId type ethAmount tokenAmount platformFee")
+    .lean();
+
+  const ledgers = new Map<string, Ledger>();
+  for (const trade of trades) {
+    const key = String(trade.tokenId);
+    const ledger = ledgers.get(key) ?? { quantity: 0n, cost: 0n, realized: 0n, contributed: 0n };
+    const eth = BigInt(trade.ethAmount);
+    const amount = BigInt(trade.tokenAmount);
+
+    if (trade.type === "buy") {
+      ledger.quantity += amount;
+      ledger.cost += eth;
+      ledger.contributed += eth - BigInt(trade.platformFee);
+    } else {
+      const sold = min(amount, ledger.quantity);
+      const released = ledger.quantity > 0n ? (ledger.cost * sold) / ledger.quantity : 0n;
+      ledger.quantity -= sold;
+      ledger.cost -= released;
+      ledger.realized += eth - released;
+      ledger.contributed -= eth;
+    }
+    ledgers.set(key, ledger);
+  }
+
+  return ledgers;
+};
+
+/**
+ * holdings, cost basis and PnL of `owner` across every listed token, amounts in the native coin of
+ * each token's chain
+ */
+const computePortfolio = async (owner: Address) => {
+  const [tokens, ledgers] = await Promise.all([
+    TokenModel.find({ contractAddress: { $exists: true, $ne: "" } })
+      .select("name ticker imageUrl chainId contractAddress bondingCurveAddress price")
+      .lean(),
+    replayTrades(owner),
+  ]);
+
+  const balances = await readBalances(
+    tokens.map((token) => ({ chainId: token.chainId, address: token.contractAddress as Address })),
+    owner
+  );
+  const held = tokens
+    .map((token, i) => ({ token, balance: balances[i], ledger: ledgers.get(String(token._id)) }))
+    .filter(({ balance, ledger }) => balance > 0n || ledger);
+
+  const withCurve = held.filter(({ token }) => token.bondingCurveAddress);
+  const curves = await readCurves(
+    withCurve.map(({ token }) => ({
+      chainId: token.chainId,
+      address: token.bondingCurveAddress as Address,
+    }))
+  );
+  const priceByCurve = new Map(
+    withCurve.map(({ token }, i) => [token.bondingCurveAddress, curves[i].price])
+  );
+
+  const positions = held.map(({ token, balance, ledger }) => {
+    const { quantity, cost, realized, contributed } = ledger ?? {
+      quantity: 0n,
+      cost: 0n,
+      realized: 0n,
+      contributed: 0n,
+    };
+    const price = priceByCurve.get(token.bondingCurveAddress) ?? token.price;
+    // only the part of the balance that was bought on the curve has a cost
+    const heldCost = quantity > 0n ? (cost * min(balance, quantity)) / quantity : 0n;
+    const value = toNumber(balance) * price;
+
+    return {
+      token: {
+        _id: token._id,
+        name: token.name,
+        ticker: token.ticker,
+        imageUrl: token.imageUrl,
+        chainId: token.chainId,
+        contractAddress: token.contractAddress,
+      },
+      balance: balance.toString(),
+      price,
+      value,
+      averageEntryPrice: quantity > 0n ? toNumber(cost) / toNumber(quantity) : 0,
+      costBasis: toNumber(heldCost),
+      realizedPnl: toNumber(realized),
+      unrealizedPnl: value - toNumber(heldCost),
+      donated: contributed > 0n ? toNumber(contributed) : 0,
+    };
+  });
+
+  // each chain pays in its own native coin, so totals are only summed within a chain
+  const chainIds = [...new Set(positions.map((position) => position.token.chainId))];
+  const sum = (chainId: number, field: "value" | "realizedPnl" | "unrealizedPnl" | "donated") =>
+    positions
+      .filter((position) => position.token.chainId === chainId)
+      .reduce((total, position) => total + position[field], 0);
+
+  return {
+    address: owner,
+    positions: positions.sort((a, b) => b.value - a.value),
+    totals: chainIds.map((chainId) => ({
+      chainId,
+      value: sum(chainId, "value"),
+      realizedPnl: sum(chainId, "realizedPnl"),
+      unrealizedPnl: sum(chainId, "unrealizedPnl"),
+      donated: sum(chainId, "donated"),
+    })),
+  };
+};
+
+type Portfolio = Awaited<ReturnType<typeof computePortfolio>>;
+
+const cache = new Map<string, { expiresAt: number; portfolio: Promise<Portfolio> }>();
+
+/**
+ * `computePortfolio` behind a short-lived per-wallet cache. Every build reads a balance for every
+ * listed token, so repeated and concurrent requests for the same wallet share one build; the oldest
+ * wallet is evicted once the cache is full and a failed build is never kept.
+ */
+export const buildPortfolio = (owner: Address) => {
+  const key = owner.toLowerCase();
+  const hit = cache.get(key);
+  if (hit && hit.expiresAt > Date.now()) return hit.portfolio;
+
+  cache.delete(key);
+  if (cache.size >= CONFIG.PORTFOLIO_CACHE_SIZE) cache.delete(cache.keys().next().value!);
+
+  const portfolio = computePortfolio(owner);
+  cache.set(key, { expiresAt: Date.now() + CONFIG.PORTFOLIO_CACHE_TTL * 1000, portfolio });
+  portfolio.catch(() => {
+    if (cache.get(key)?.portfolio === portfolio) cache.delete(key);
+  });
+  return portfolio;
+};
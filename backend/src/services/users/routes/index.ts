@@ -1,10 +1,77 @@
 import { Router } from "express";
-import { findItems } from "../controller/find";
-import { createItem } from "../controller/create";
+import {
+  findFollow,
+  findFollowers,
+  findFollowing,
+  findItemByAddress,
+  findItems,
+  findPortfolio,
+  findTokensByAddress,
+  findWatchlist,
+} from "../controller/find";
+import { createFollow, createItem, createWatchlistItem } from "../controller/create";
+import { deleteFollow, deleteWatchlistItem } from "../controller/delete";
+import { updateItem } from "../controller/update";
+import {
+  addressParamsSchema,
+  createItemBodySchema,
+  findFollowsQuerySchema,
+  updateItemBodySchema,
+  watchlistParamsSchema,
+} from "../schema";
+import { requireAuth } from "@/middlewares/auth";
+import { imageUpload } from "@/middlewares/upload";
+import { validate } from "@/middlewares/validate";
 
 const router = Router();
 
 router.get("/", findItems);
-router.post("/", createItem);
+router.post("/", requireAuth, validate({ body: createItemBodySchema }), createItem);
+router.get("/me/watchlist", requireAuth, findWatchlist);
+router.put(
+  "/me/watchlist/:contractAddress",
+  requireAuth,
+  validate({ params: watchlistParamsSchema }),
+  createWatchlistItem
+);
+router.delete(
+  "/me/watchlist/:contractAddress",
+  requireAuth,
+  validate({ params: watchlistParamsSchema }),
+  deleteWatchlistItem
+);
+router.get("/:address", validate({ params: addressParamsSchema }), findItemByAddress);
+router.get("/:address/tokens", validate({ params: addressParamsSchema }), findTokensByAddress);
+router.get("/:address/portfolio", validate({ params: addressParamsSchema }), findPortfolio);
+router.get(
+  "/:address/followers",
+  validate({ params: addressParamsSchema, query: findFollowsQuerySchema }),
+  findFollowers
+);
+router.get(
+  "/:address/following",
+  validate({ params: addressParamsSchema, query: findFollowsQuerySchema }),
+  findFollowing
+);
+router.get("/:address/follow", requireAuth, validate({ params: addressParamsSchema }), findFollow);
+router.post(
+  "/:address/follow",
+  requireAuth,
+  validate({ params: addressParamsSchema }),
+  createFollow
+);
+router.delete(
+  "/:address/follow",
+  requireAuth,
+  validate({ params: addressParamsSchema }),
+  deleteFollow
+);
+router.put(
+  "/:address",
+  requireAuth,
+  imageUpload("avatar"),
+  validate({ params: addressParamsSchema, body: updateItemBodySchema }),
+  updateItem
+);
 
 export { router };
@@ -0,0 +1,29 @@
+import { z } from "zod";
+import { getAddress } from "viem";
+import { addressSchema } from "@shared/schemas/common";
+import { profileSchema } from "@shared/schemas/user";
+import { jsonPayload } from "@/utils/schema";
+
+export const addressParamsSchema = z.object({
+  address: addressSchema.transform((value) => getAddress(value)),
+});
+
+export const findFollowsQuerySchema = z.object({
+  page: z.coerce.number().int().positive().default(1),
+  limit: z.coerce.number().int().positive().max(100).default(20),
+});
+
+export const watchlistParamsSchema = z.object({
+  contractAddress: addressSchema,
+});
+
+export const createItemBodySchema = z.object({
+  username: z.string().trim().min(1).max(32).optional(),
+});
+
+export const updateItemBodySchema = z.object({
+  payload: jsonPayload(profileSchema),
+});
+
+export type UpdateItemBody = z.infer<typeof updateItemBodySchema>;
+export type FindFollowsQuery = z.infer<typeof findFollowsQuerySchema>;
@@ -0,0 +1,10 @@
+import type { AuthSession } from "@services/account/session";
+
+declare global {
+  namespace Express {
+    interface Request {
+      /** set by `requireAuth` for signed-in wallets */
+      auth?: AuthSession;
+    }
+  }
+}
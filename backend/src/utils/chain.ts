@@ -0,0 +1,11 @@
+import type { Address } from "viem";
+
+/** a contract on one of the registry's chains */
+export type ChainAddress = { chainId: number; address: Address };
+
+/** positions of `items` per chain, so each chain's reads can share one multicall */
+export const groupByChain = <T extends { chainId: number }>(items: T[]) => {
+  const groups = new Map<number, number[]>();
+  items.forEach((item, i) => groups.set(item.chainId, [...(groups.get(item.chainId) ?? []), i]));
+  return groups;
+};
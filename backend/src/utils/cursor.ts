@@ -0,0 +1,44 @@
+import mongoose from "mongoose";
+
+const { EJSON } = mongoose.mongo.BSON;
+
+type SortSpec = Record<string, 1 | -1>;
+type CursorPayload = { sort: string; values: unknown[] };
+
+/**
+ * Cursors are the sort key of the last item on a page, EJSON-encoded so dates and ObjectIds
+ * survive the round trip, then base64url'd so clients treat them as opaque strings.
+ */
+export function encodeCursor(sort: string, spec: SortSpec, item: Record<string, unknown>): string {
+  const payload: CursorPayload = {
+    sort,
+    values: Object.keys(spec).map((field) => item[field] ?? null),
+  };
+  return Buffer.from(EJSON.stringify(payload)).toString("base64url");
+}
+
+/** returns null when the cursor is malformed or was issued for another sort mode */
+export function decodeCursor(cursor: string, sort: string, spec: SortSpec): unknown[] | null {
+  try {
+    const payload = EJSON.parse(Buffer.from(cursor, "base64url").toString()) as CursorPayload;
+    if (payload.sort !== sort || payload.values.length !== Object.keys(spec).length) return null;
+    return payload.values;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Keyset condition matching every document that sorts strictly after the cursor:
+ * `(a > x) OR (a = x AND b > y) OR ...` with the comparison flipped for descending fields.
+ */
+export function cursorMatch(spec: SortSpec, values: unknown[]) {
+  const fields = Object.keys(spec);
+
+  return {
+    $or: fields.map((field, i) => ({
+      ...Object.fromEntries(fields.slice(0, i).map((prev, j) => [prev, values[j]])),
+      [field]: { [spec[field] === -1 ? "$lt" : "$gt"]: values[i] },
+    })),
+  };
+}
@@ -0,0 +1,51 @@
+import { BONDING_CURVE_ABI } from "@/constants/BONDING_CURVE_ABI";
+import { groupByChain, type ChainAddress } from "@/utils/chain";
+import { getPublicClient } from "@packages/viem";
+import { formatEther } from "viem";
+
+const MULTICALL_CHUNK = 50;
+
+export type CurveState = {
+  marketCap?: number;
+  price?: number;
+  hasGraduated?: boolean;
+};
+
+/** live market cap, price and graduation of each curve, undefined where a read failed */
+export const readCurves = async (curves: ChainAddress[]) => {
+  const results: CurveState[] = new Array(curves.length);
+
+  for (const [chainId, positions] of groupByChain(curves)) {
+    const client = getPublicClient(chainId);
+
+    for (let i = 0; i < positions.length; i += MULTICALL_CHUNK) {
+      const chunk = positions.slice(i, i + MULTICALL_CHUNK);
+      const reads = await client.multicall({
+        contracts: chunk.flatMap((position) => {
+          const { address } = curves[position];
+          return [
+            { abi: BONDING_CURVE_ABI, address, functionName: "getMarketCap" } as const,
+            { abi: BONDING_CURVE_ABI, address, functionName: "getCurrentPrice" } as const,
+            { abi: BONDING_CURVE_ABI, address, functionName: "hasGraduated" } as const,
+          ];
+        }),
+      });
+
+      chunk.forEach((position, j) => {
+        const [marketCap, price, hasGraduated] = reads.slice(j * 3, j * 3 + 3);
+        results[position] = {
+          marketCap:
+            marketCap.status === "success"
+              ? Number(formatEther(marketCap.result as bigint))
+              : undefined,
+          price:
+            price.status === "success" ? Number(formatEther(price.result as bigint)) : undefined,
+          hasGraduated:
+            hasGraduated.status === "success" ? Boolean(hasGraduated.result) : undefined,
+        };
+      });
+    }
+  }
+
+  return results;
+};
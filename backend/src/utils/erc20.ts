@@ -0,0 +1,35 @@
+import { groupByChain, type ChainAddress } from "@/utils/chain";
+import { getPublicClient } from "@packages/viem";
+import { erc20Abi, type Address } from "viem";
+
+const MULTICALL_CHUNK = 50;
+
+/** `owner`'s raw balance of each token, 0n where the read failed */
+export const readBalances = async (tokens: ChainAddress[], owner: Address) => {
+  const balances: bigint[] = new Array(tokens.length).fill(0n);
+
+  for (const [chainId, positions] of groupByChain(tokens)) {
+    const client = getPublicClient(chainId);
+
+    for (let i = 0; i < positions.length; i += MULTICALL_CHUNK) {
+      const chunk = positions.slice(i, i + MULTICALL_CHUNK);
+      const reads = await client.multicall({
+        contracts: chunk.map(
+          (position) =>
+            ({
+              abi: erc20Abi,
+              address: tokens[position].address,
+              functionName: "balanceOf",
+              args: [owner],
+            }) as const
+        ),
+      });
+      chunk.forEach((position, j) => {
+        const read = reads[j];
+        if (read.status === "success") balances[position] = read.result;
+      });
+    }
+  }
+
+  return balances;
+};
@@ -1,5 +1,21 @@
-export function extractIframeSrc(iframeHtml: string): string | null {
-  console.log("Extracting iframe src from HTML:", iframeHtml);
-  const match = iframeHtml.match(/<iframe[^>]+src=["']([^"']+)["']/i);
-  return match ? match[1] : null;
+export function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/** true for the error a unique index raises when a concurrent write got there first */
+export function isDuplicateKeyError(error: unknown): boolean {
+  return (error as { code?: number } | null)?.code === 11000;
+}
+
+/**
+ * runs an upsert again when a concurrent one inserted the same unique key first, the retry matches
+ * that document and updates it instead
+ */
+export async function retryOnDuplicateKey<T>(write: () => Promise<T>): Promise<T> {
+  try {
+    return await write();
+  } catch (error) {
+    if (!isDuplicateKeyError(error)) throw error;
+    return write();
+  }
 }
@@ -0,0 +1,15 @@
+import { z, ZodTypeAny } from "zod";
+
+/** multipart routes send their fields as one JSON string next to the uploaded file */
+export const jsonPayload = <T extends ZodTypeAny>(schema: T) =>
+  z
+    .string({ required_error: "Payload field missing" })
+    .transform((value, ctx) => {
+      try {
+        return JSON.parse(value);
+      } catch {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Payload must be valid JSON" });
+        return z.NEVER;
+      }
+    })
+    .pipe(schema);
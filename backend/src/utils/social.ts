@@ -0,0 +1,70 @@
+type SocialPost = {
+  platform: "youtube" | "linkedin";
+  id: string;
+  /** stable lookup key stored on tokens, e.g. `youtube:dQw4w9WgXcQ` */
+  key: string;
+  /** embeddable URL without tracking params */
+  embedUrl: string;
+};
+
+const YOUTUBE_HOSTS = ["youtube.com", "m.youtube.com", "music.youtube.com", "youtube-nocookie.com"];
+const YOUTUBE_ID = /^[\w-]{11}$/;
+const LINKEDIN_URN = /urn:li:(activity|share|ugcPost):(\d+)/i;
+// share links look like /posts/<author>_<slug>-activity-7301234567890123456-AbCd
+const LINKEDIN_ACTIVITY_SLUG = /-(activity|share|ugcPost)-(\d+)/i;
+
+const parseUrl = (input: string) => {
+  const value = input.trim();
+  try {
+    return new URL(/^https?:\/\//i.test(value) ? value : `https://${value}`);
+  } catch {
+    return null;
+  }
+};
+
+const youtubeId = (url: URL) => {
+  const host = url.hostname.replace(/^www\./, "");
+  const [first, second] = url.pathname.split("/").filter(Boolean);
+
+  if (host === "youtu.be") return first;
+  if (!YOUTUBE_HOSTS.includes(host)) return null;
+  if (first === "watch") return url.searchParams.get("v");
+  if (["embed", "shorts", "live", "v"].includes(first)) return second;
+  return null;
+};
+
+/**
+ * Turns a pasted YouTube or LinkedIn link (watch page, youtu.be short link, embed src, post share
+ * link, feed URN) into one canonical form so it can be matched against stored `postUrl`s.
+ * Returns null for anything else.
+ */
+export function parseSocialUrl(input: string): SocialPost | null {
+  const url = parseUrl(input);
+  if (!url || !url.hostname.includes(".")) return null;
+
+  const videoId = youtubeId(url);
+  if (videoId && YOUTUBE_ID.test(videoId)) {
+    return {
+      platform: "youtube",
+      id: videoId,
+      key: `youtube:${videoId}`,
+      embedUrl: `https://www.youtube.com/embed/${videoId}`,
+    };
+  }
+
+  if (url.hostname.replace(/^www\./, "").endsWith("linkedin.com")) {
+    const path = decodeURIComponent(url.pathname);
+    const match = path.match(LINKEDIN_URN) ?? path.match(LINKEDIN_ACTIVITY_SLUG);
+    if (!match) return null;
+
+    const [, type, id] = match;
+    return {
+      platform: "linkedin",
+      id,
+      key: `linkedin:${id}`,
+      embedUrl: `https://www.linkedin.com/embed/feed/update/urn:li:${type}:${id}`,
+    };
+  }
+
+  return null;
+}
@@ -1,11 +1,25 @@
 import { useEffect, useRef } from "react";
-import { createChart, ColorType, CrosshairMode, CandlestickSeries } from "lightweight-charts";
+import {
+  createChart,
+  ColorType,
+  CandlestickSeries,
+  HistogramSeries,
+  type UTCTimestamp,
+} from "lightweight-charts";
 
-export function ChartFund(props: {
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  data: any;
-  colors?: Record<string, string>;
-}) {
+export type Candle = {
+  time: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume?: number;
+};
+
+const UP_COLOR = "#26a69a";
+const DOWN_COLOR = "#ef5350";
+
+export function ChartFund(props: { data: Candle[]; colors?: Record<string, string> }) {
   const {
     data,
     colors: {
@@ -43,11 +57,9 @@ export function ChartFund(props: {
 
     chart.timeScale().applyOptions({
       borderVisible: false,
+      timeVisible: true,
     });
 
-    chart.timeScale().fitContent();
-    // chart.timeScale().getVisibleRange();
-
     // const newSeries = chart.addSeries(AreaSeries, {
     //   lineColor,
     //   topColor: areaTopColor,
@@ -56,15 +68,47 @@ export function ChartFund(props: {
     // newSeries.setData(data);
 
     const candleSeries = chart.addSeries(CandlestickSeries, {
-      upColor: "#26a69a",
-      downColor: "#ef5350",
+      upColor: UP_COLOR,
+      downColor: DOWN_COLOR,
       borderVisible: false,
-      wickUpColor: "#26a69a",
-      wickDownColor: "#ef5350",
+      wickUpColor: UP_COLOR,
+      wickDownColor: DOWN_COLOR,
       borderColor: "#000000",
+      // curve prices are tiny (0.0000000337 EDU), the default 2 decimals would flatten them
+      priceFormat: { type: "price", precision: 10, minMove: 0.0000000001 },
+    });
+
+    candleSeries.priceScale().applyOptions({
+      scaleMargins: { top: 0.1, bottom: 0.3 },
     });
 
-    candleSeries.setData(data);
+    const volumeSeries = chart.addSeries(HistogramSeries, {
+      priceFormat: { type: "volume" },
+      priceScaleId: "",
+    });
+
+    volumeSeries.priceScale().applyOptions({
+      scaleMargins: { top: 0.8, bottom: 0 },
+    });
+
+    candleSeries.setData(
+      data.map(({ time, open, high, low, close }) => ({
+        time: time as UTCTimestamp,
+        open,
+        high,
+        low,
+        close,
+      }))
+    );
+    volumeSeries.setData(
+      data.map(({ time, open, close, volume }) => ({
+        time: time as UTCTimestamp,
+        value: volume ?? 0,
+        color: close >= open ? `${UP_COLOR}80` : `${DOWN_COLOR}80`,
+      }))
+    );
+
+    chart.timeScale().fitContent();
 
     window.addEventListener("resize", handleResize);
 
@@ -1,9 +1,12 @@
 import { useEffect, useState, type JSX } from "react";
 import { cn } from "~/utils/cn";
+import { formatCompact, formatPercent } from "~/utils/format";
 import { ClientOnly } from "remix-utils/client-only";
 import { ScrambleText } from "./scramble-text";
 import React from "react";
 import { ConnectWallet } from "./wallet/connect-wallet";
+import { NetworkSwitcher } from "./wallet/network-switcher";
+import { getChain } from "@shared/chains";
 import { Link } from "react-router";
 
 type DynamicHeaderProps = {
@@ -27,8 +30,9 @@ export function DynamicHeader({ listTokens, titleChild, className }: DynamicHead
 
   useEffect(() => {
     const item = listTokens[currentIndex];
+    const change = Number(item.priceChange24h ?? 0);
     setDisplayed(
-      `$${item.ticker}: ${String(parseFloat((Math.random() * (10 - 1) + 1).toFixed(2)))}`
+      `$${item.ticker}: ${formatCompact(Number(item.marketCap ?? 0))} ${getChain(Number(item.chainId)).nativeCurrency.symbol} ${change >= 0 ? "+" : ""}${formatPercent(change)}`
     );
   }, [currentIndex]);
 
@@ -41,8 +45,9 @@ export function DynamicHeader({ listTokens, titleChild, className }: DynamicHead
       </Link>
       {titleChild && titleChild}
       <ClientOnly>
-        {() => <ScrambleText title={`${displayed}K`} className="grow text-center" />}
+        {() => <ScrambleText title={displayed} className="grow text-center" />}
       </ClientOnly>
+      <NetworkSwitcher />
       <ConnectWallet />
     </div>
   );
@@ -0,0 +1,89 @@
+import { Drawer, DrawerContent, DrawerHeader, DrawerTitle } from "@shadcn/drawer";
+import { Badge } from "@shadcn/badge";
+import { useState } from "react";
+import { Activity, ExternalLink } from "lucide-react";
+import { ClientOnly } from "remix-utils/client-only";
+import { explorerTxUrl, getChain } from "@shared/chains";
+import { useTransactions, type TrackedTx, type TxStatus } from "./provider";
+
+const STATUS_VARIANT: Record<TxStatus, "secondary" | "outline" | "destructive"> = {
+  pending: "outline",
+  confirmed: "secondary",
+  reverted: "destructive",
+  replaced: "outline",
+  dropped: "destructive",
+};
+
+function TransactionRow({ tx }: { tx: TrackedTx }) {
+  return (
+    <div className="flex flex-row justify-between items-center gap-2 text-sm">
+      <div className="flex flex-col">
+        <span>{tx.label}</span>
+        <span className="text-xs text-gray-400">
+          {new Date(tx.submittedAt).toLocaleTimeString()} · {getChain(tx.chainId).name}
+          {tx.replacedBy && ` · ${tx.replacementReason ?? "replaced"}`}
+        </span>
+      </div>
+      <div className="flex flex-row items-center gap-2">
+        <Badge variant={STATUS_VARIANT[tx.status]}>
+          {tx.status === "pending" && (
+            <span className="size-2 rounded-full bg-yellow-400 animate-pulse" />
+          )}
+          {tx.status}
+        </Badge>
+        <a
+          href={explorerTxUrl(tx.chainId, tx.replacedBy ?? tx.hash)}
+          target="_blank"
+          rel="noopener noreferrer"
+          aria-label="View on explorer"
+        >
+          <ExternalLink className="size-4" />
+        </a>
+      </div>
+    </div>
+  );
+}
+
+/** floating list of this browser's recent transactions, kept across reloads */
+export function ActivityPanel() {
+  const [isOpen, setIsOpen] = useState(false);
+  const { transactions, clearSettled } = useTransactions();
+  const pendingCount = transactions.filter((tx) => tx.status === "pending").length;
+
+  return (
+    <Drawer open={isOpen} onOpenChange={setIsOpen}>
+      <ClientOnly>
+        {() =>
+          transactions.length > 0 && (
+            <button
+              onClick={() => setIsOpen(true)}
+              aria-label="Recent transactions"
+              className="fixed bottom-12 right-4 z-20 flex items-center gap-2 rounded-full border border-white/50 bg-background/30 backdrop-blur-lg px-3 py-2 cursor-pointer"
+            >
+              <Activity className={pendingCount > 0 ? "size-5 animate-pulse" : "size-5"} />
+              {pendingCount > 0 && <span className="text-sm">{pendingCount}</span>}
+            </button>
+          )
+        }
+      </ClientOnly>
+      <DrawerContent className="pb-10">
+        <div className="mx-auto w-full max-w-md flex flex-col gap-4 px-4">
+          <DrawerHeader>
+            <DrawerTitle className="text-center font-bold">Recent transactions</DrawerTitle>
+          </DrawerHeader>
+          {transactions.map((tx) => (
+            <TransactionRow key={tx.hash} tx={tx} />
+          ))}
+          {transactions.length > pendingCount && (
+            <button
+              onClick={clearSettled}
+              className="text-xs text-gray-400 hover:underline cursor-pointer self-end"
+            >
+              Clear finished
+            </button>
+          )}
+        </div>
+      </DrawerContent>
+    </Drawer>
+  );
+}
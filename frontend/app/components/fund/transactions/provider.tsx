@@ -0,0 +1,205 @@
+import { createContext, useCallback, useContext, useEffect, useRef, useState } from "react";
+import {
+  BaseError,
+  TransactionNotFoundError,
+  WaitForTransactionReceiptTimeoutError,
+  type Hash,
+  type ReplacementReason,
+} from "viem";
+import { useAccount, useConfig } from "wagmi";
+import { getTransaction, waitForTransactionReceipt } from "wagmi/actions";
+import { toast } from "sonner";
+
+export type TxStatus = "pending" | "confirmed" | "reverted" | "replaced" | "dropped";
+
+export type TrackedTx = {
+  hash: Hash;
+  label: string;
+  chainId: number;
+  status: TxStatus;
+  submittedAt: number;
+  /** the tx that took this one's nonce, when the wallet sped it up or cancelled it */
+  replacedBy?: Hash;
+  replacementReason?: ReplacementReason;
+};
+
+export interface TransactionsContextType {
+  transactions: TrackedTx[];
+  /**
+   * starts tracking a submitted tx, resolves once it settles in any final state. `chainId` defaults
+   * to the wallet's current network
+   */
+  track: (tx: { hash: Hash; label: string; chainId?: number }) => Promise<TrackedTx>;
+  clearSettled: () => void;
+}
+
+const STORAGE_KEY = "fund:transactions";
+const MAX_KEPT = 20;
+// a tx still unmined after this long is dropped, unless the node still has it in its mempool
+const DROP_TIMEOUT = 10 * 60 * 1000;
+// pause before asking again after an RPC error or a tx that is still sitting in the mempool
+const RETRY_DELAY = 15 * 1000;
+// restored txs past their deadline still get one last look before being called dropped
+const RESTORE_GRACE = 30 * 1000;
+
+const TOASTS: Record<Exclude<TxStatus, "pending">, (tx: TrackedTx) => void> = {
+  confirmed: (tx) => toast.success(`${tx.label} confirmed`),
+  reverted: (tx) => toast.error(`${tx.label} reverted`),
+  replaced: (tx) =>
+    toast.warning(
+      tx.replacementReason === "cancelled"
+        ? `${tx.label} was cancelled in your wallet`
+        : `${tx.label} was replaced in your wallet`
+    ),
+  dropped: (tx) => toast.error(`${tx.label} was dropped by the network`),
+};
+
+const TransactionsContext = createContext<TransactionsContextType | null>(null);
+
+function loadTransactions(): TrackedTx[] {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || "[]");
+  } catch {
+    return [];
+  }
+}
+
+export function TransactionsProvider({ children }: { children: React.ReactNode }) {
+  const config = useConfig();
+  const { chainId } = useAccount();
+  const [transactions, setTransactions] = useState<TrackedTx[]>([]);
+  const [isRestored, setIsRestored] = useState(false);
+  const watching = useRef(new Set<Hash>());
+
+  const upsert = useCallback((tx: TrackedTx) => {
+    setTransactions((prev) =>
+      [tx, ...prev.filter((item) => item.hash !== tx.hash)]
+        .sort((a, b) => b.submittedAt - a.submittedAt)
+        .slice(0, MAX_KEPT)
+    );
+  }, []);
+
+  /** false only when the node has no record of the tx, a failing lookup counts as known */
+  const isKnown = useCallback(
+    (tx: TrackedTx) =>
+      getTransaction(config, { hash: tx.hash, chainId: tx.chainId }).then(
+        () => true,
+        (error) =>
+          !(error instanceof BaseError && error.walk((e) => e instanceof TransactionNotFoundError))
+      ),
+    [config]
+  );
+
+  /** waits for the receipt of `tx`, or of the tx that replaced it, and maps it to a final state */
+  const settle = useCallback(
+    async (tx: TrackedTx): Promise<TrackedTx> => {
+      let replacementReason: ReplacementReason | undefined;
+      const receipt = await waitForTransactionReceipt(config, {
+        hash: tx.hash,
+        chainId: tx.chainId,
+        timeout: Math.max(tx.submittedAt + DROP_TIMEOUT - Date.now(), RESTORE_GRACE),
+        onReplaced: (replacement) => {
+          replacementReason = replacement.reason;
+        },
+      });
+      const status = receipt.status === "success" ? "confirmed" : "reverted";
+
+      if (!replacementReason) return { ...tx, status };
+
+      const replaced: TrackedTx = {
+        ...tx,
+        status: "replaced",
+        replacedBy: receipt.transactionHash,
+        replacementReason,
+      };
+      upsert(replaced);
+      return replacementReason === "repriced"
+        ? { ...tx, hash: receipt.transactionHash, status }
+        : replaced;
+    },
+    [config, upsert]
+  );
+
+  /**
+   * Follows one tx to a final state. A sped-up tx ("repriced") is the same trade under a new hash,
+   * so the replacement is tracked in its place; a cancelled or otherwise replaced one settles as
+   * `replaced`. A tx is only `dropped` once the wait timed out and the node no longer knows it; an
+   * RPC error or a tx still in the mempool keeps it `pending` and it is watched again.
+   */
+  const watch = useCallback(
+    async (tx: TrackedTx): Promise<TrackedTx> => {
+      watching.current.add(tx.hash);
+      let settled: TrackedTx | undefined;
+
+      while (!settled) {
+        try {
+          settled = await settle(tx);
+        } catch (error) {
+          const timedOut =
+            error instanceof BaseError &&
+            error.walk((e) => e instanceof WaitForTransactionReceiptTimeoutError);
+          if (timedOut && !(await isKnown(tx))) {
+            settled = { ...tx, status: "dropped" };
+          } else {
+            await new Promise((resolve) => setTimeout(resolve, RETRY_DELAY));
+          }
+        }
+      }
+
+      watching.current.delete(tx.hash);
+      upsert(settled);
+      TOASTS[settled.status as Exclude<TxStatus, "pending">](settled);
+      return settled;
+    },
+    [isKnown, settle, upsert]
+  );
+
+  const track = useCallback(
+    ({ hash, label, chainId: txChainId }: { hash: Hash; label: string; chainId?: number }) => {
+      const tx: TrackedTx = {
+        hash,
+        label,
+        chainId: txChainId ?? chainId ?? config.chains[0].id,
+        status: "pending",
+        submittedAt: Date.now(),
+      };
+      upsert(tx);
+      toast.info(`${label} submitted`);
+      return watch(tx);
+    },
+    [chainId, config, upsert, watch]
+  );
+
+  const clearSettled = useCallback(() => {
+    setTransactions((prev) => prev.filter((tx) => tx.status === "pending"));
+  }, []);
+
+  // txs still pending when the page was left are picked up again
+  useEffect(() => {
+    const restored = loadTransactions();
+    setTransactions(restored);
+    setIsRestored(true);
+
+    for (const tx of restored) {
+      if (tx.status === "pending" && !watching.current.has(tx.hash)) watch(tx);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (isRestored) localStorage.setItem(STORAGE_KEY, JSON.stringify(transactions));
+  }, [transactions, isRestored]);
+
+  return (
+    <TransactionsContext.Provider value={{ transactions, track, clearSettled }}>
+      {children}
+    </TransactionsContext.Provider>
+  );
+}
+
+export function useTransactions() {
+  const context = useContext(TransactionsContext);
+  if (!context) {
+    throw new Error("useTransactions must be used within a TransactionsProvider");
+  }
+  return context;
+}
@@ -1,7 +1,7 @@
 import { ClientOnly } from "remix-utils/client-only";
 import { useFundWallet } from "./provider";
 import { ButtonArrow, ButtonMagnet } from "@fund/button";
-import { ChevronDown, LogOut, User } from "lucide-react";
+import { ChevronDown, KeyRound, LogOut, ShieldCheck, User } from "lucide-react";
 import { useEffect, useState } from "react";
 import { Drawer, DrawerContent, DrawerHeader, DrawerTitle } from "@shadcn/drawer";
 import {
@@ -12,10 +12,15 @@ import {
   DropdownMenuTrigger,
 } from "@shadcn/dropdown-menu";
 import { NavLink } from "react-router";
+import { toast } from "sonner";
 
 export function ConnectWallet() {
   const [isOpen, setIsOpen] = useState(false);
-  const { connectors, isConnected, address, disconnect } = useFundWallet();
+  const { connectors, isConnected, address, disconnect, session, signIn } = useFundWallet();
+
+  const handleSignIn = () => {
+    signIn().catch((error) => toast(`Sign in failed: ${error.shortMessage ?? error.message}`));
+  };
 
   useEffect(() => {
     if (isConnected && address) {
@@ -50,6 +55,22 @@ export function ConnectWallet() {
                 </DropdownMenuShortcut>
               </DropdownMenuItem>
             </NavLink>
+            <NavLink to="/approvals">
+              <DropdownMenuItem className="py-4">
+                Approvals
+                <DropdownMenuShortcut>
+                  <KeyRound className="size-6" />
+                </DropdownMenuShortcut>
+              </DropdownMenuItem>
+            </NavLink>
+            {!session && (
+              <DropdownMenuItem className="py-4" onClick={handleSignIn}>
+                Sign in
+                <DropdownMenuShortcut>
+                  <ShieldCheck className="size-6" />
+                </DropdownMenuShortcut>
+              </DropdownMenuItem>
+            )}
             <DropdownMenuItem className="py-4" onClick={disconnect}>
               Log out
               <DropdownMenuShortcut>
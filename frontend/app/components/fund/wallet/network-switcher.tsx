@@ -0,0 +1,67 @@
+import { ClientOnly } from "remix-utils/client-only";
+import { Check, ChevronDown } from "lucide-react";
+import { useAccount, useSwitchChain } from "wagmi";
+import { toast } from "sonner";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuShortcut,
+  DropdownMenuTrigger,
+} from "@shadcn/dropdown-menu";
+import { CHAINS, isSupportedChain } from "@shared/chains";
+import { cn } from "~/utils/cn";
+
+/** the wallet's current network, with every chain the launcher is deployed on to pick from */
+export function NetworkSwitcher() {
+  const { chainId, isConnected } = useAccount();
+  const { switchChainAsync, isPending } = useSwitchChain();
+
+  if (!isConnected) return null;
+
+  const current = CHAINS.find((chain) => chain.id === chainId);
+  const supported = chainId !== undefined && isSupportedChain(chainId);
+
+  const handleSwitch = (id: number) => {
+    switchChainAsync({ chainId: id }).catch((error) =>
+      toast(`Switching network failed: ${error.shortMessage ?? error.message}`)
+    );
+  };
+
+  return (
+    <ClientOnly>
+      {() => (
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <button
+              disabled={isPending}
+              className={cn(
+                "flex flex-row items-center gap-2 px-3 py-2 text-sm rounded-md border border-white/50 hover:bg-white/10 cursor-pointer disabled:opacity-50",
+                !supported && "border-red-400 text-red-400"
+              )}
+            >
+              {current?.name ?? "Wrong network"}
+              <ChevronDown className="size-4" />
+            </button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="center" className="w-48">
+            {CHAINS.map((chain) => (
+              <DropdownMenuItem
+                key={chain.id}
+                className="py-3"
+                onClick={() => chain.id !== chainId && handleSwitch(chain.id)}
+              >
+                {chain.name}
+                {chain.id === chainId && (
+                  <DropdownMenuShortcut>
+                    <Check className="size-4" />
+                  </DropdownMenuShortcut>
+                )}
+              </DropdownMenuItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+      )}
+    </ClientOnly>
+  );
+}
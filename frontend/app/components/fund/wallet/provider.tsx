@@ -1,7 +1,9 @@
-import { createContext, useContext, useState } from "react";
+import { createContext, useCallback, useContext, useEffect, useState } from "react";
 import type { Address } from "viem";
-import { useAccount, useConnect, useDisconnect, type Config } from "wagmi";
+import { useAccount, useConnect, useDisconnect, useSignMessage, type Config } from "wagmi";
 import type { ConnectMutate } from "wagmi/query";
+import { DEFAULT_CHAIN_ID } from "@shared/chains";
+import { clearSession, loadSession, requestSession, type AuthSession } from "@services/auth";
 
 export interface FundWalletContextType {
   // isOpen: boolean;
@@ -11,15 +13,43 @@ export interface FundWalletContextType {
   disconnect: () => void;
   address: Address;
   isConnected: boolean;
+  /** SIWE session of the connected wallet, null until it signs in */
+  session: AuthSession | null;
+  signIn: () => Promise<AuthSession>;
 }
 
 const FundWalletContext = createContext<FundWalletContextType | null>(null);
 
 export function FundWalletProvider({ children }: { children: React.ReactNode }) {
   // const [isOpen, setIsOpen] = useState(false);
-  const { address, isConnected } = useAccount();
+  const { address, isConnected, chainId } = useAccount();
   const { connectors, connect } = useConnect();
   const { disconnect } = useDisconnect();
+  const { signMessageAsync } = useSignMessage();
+  const [session, setSession] = useState<AuthSession | null>(null);
+
+  // switching accounts in the wallet must not keep the previous wallet's session
+  useEffect(() => {
+    setSession(address ? loadSession(address) : null);
+  }, [address]);
+
+  const signIn = useCallback(async () => {
+    if (!address) throw new Error("Connect your wallet first");
+
+    const next = await requestSession({
+      address,
+      chainId: chainId ?? DEFAULT_CHAIN_ID,
+      signMessage: (message) => signMessageAsync({ message }),
+    });
+    setSession(next);
+    return next;
+  }, [address, chainId, signMessageAsync]);
+
+  const signOut = useCallback(() => {
+    clearSession();
+    setSession(null);
+    disconnect();
+  }, [disconnect]);
 
   return (
     <FundWalletContext.Provider
@@ -30,7 +60,9 @@ export function FundWalletProvider({ children }: { children: React.ReactNode })
         isConnected,
         connectors,
         connect,
-        disconnect,
+        disconnect: signOut,
+        session,
+        signIn,
       }}
     >
       {children}
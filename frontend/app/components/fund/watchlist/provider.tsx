@@ -0,0 +1,80 @@
+import { createContext, useCallback, useContext, useEffect, useState } from "react";
+import { toast } from "sonner";
+import { useFundWallet } from "@fund/wallet/provider";
+import { authHeaders } from "@services/auth";
+
+export interface WatchlistContextType {
+  isWatched: (contractAddress: string) => boolean;
+  toggle: (contractAddress: string) => Promise<void>;
+}
+
+const WatchlistContext = createContext<WatchlistContextType | null>(null);
+
+const watchlistUrl = `${import.meta.env.VITE_BE_URL}/api/users/me/watchlist`;
+
+export function WatchlistProvider({ children }: { children: React.ReactNode }) {
+  const { isConnected, session, signIn } = useFundWallet();
+  // lowercased contract addresses of the signed-in wallet's stars
+  const [watched, setWatched] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    if (!session) return setWatched(new Set());
+
+    fetch(watchlistUrl, { headers: authHeaders(session) })
+      .then((response) => (response.ok ? response.json() : []))
+      .then((tokens: { contractAddress: string }[]) =>
+        setWatched(new Set(tokens.map((token) => token.contractAddress.toLowerCase())))
+      )
+      .catch(() => setWatched(new Set()));
+  }, [session]);
+
+  const isWatched = useCallback(
+    (contractAddress: string) => watched.has(contractAddress.toLowerCase()),
+    [watched]
+  );
+
+  const toggle = useCallback(
+    async (contractAddress: string) => {
+      if (!isConnected) {
+        toast("Connect your wallet to use the watchlist");
+        return;
+      }
+
+      const key = contractAddress.toLowerCase();
+      const wasWatched = watched.has(key);
+      try {
+        const activeSession = session ?? (await signIn());
+        const response = await fetch(`${watchlistUrl}/${contractAddress}`, {
+          method: wasWatched ? "DELETE" : "PUT",
+          headers: authHeaders(activeSession),
+        });
+        if (!response.ok) {
+          const errorData = await response.json();
+          throw new Error(errorData.message || "Failed to update watchlist");
+        }
+
+        setWatched((prev) => {
+          const next = new Set(prev);
+          if (wasWatched) next.delete(key);
+          else next.add(key);
+          return next;
+        });
+      } catch (error) {
+        toast(`${error instanceof Error ? error.message : error}`);
+      }
+    },
+    [isConnected, session, signIn, watched]
+  );
+
+  return (
+    <WatchlistContext.Provider value={{ isWatched, toggle }}>{children}</WatchlistContext.Provider>
+  );
+}
+
+export function useWatchlist() {
+  const context = useContext(WatchlistContext);
+  if (!context) {
+    throw new Error("useWatchlist must be used within a WatchlistProvider");
+  }
+  return context;
+}
@@ -0,0 +1,33 @@
+import { Star } from "lucide-react";
+import { ClientOnly } from "remix-utils/client-only";
+import { cn } from "~/utils/cn";
+import { useWatchlist } from "./provider";
+
+type WatchlistStarProps = {
+  contractAddress: string;
+  className?: string;
+};
+
+export function WatchlistStar({ contractAddress, className }: WatchlistStarProps) {
+  const { isWatched, toggle } = useWatchlist();
+  const watched = isWatched(contractAddress);
+
+  return (
+    <ClientOnly>
+      {() => (
+        <button
+          aria-label={watched ? "Remove from watchlist" : "Add to watchlist"}
+          onClick={(e) => {
+            // stars sit inside card links
+            e.preventDefault();
+            e.stopPropagation();
+            toggle(contractAddress);
+          }}
+          className={cn("cursor-pointer", className)}
+        >
+          <Star className={cn("size-5", watched && "fill-yellow-400 text-yellow-400")} />
+        </button>
+      )}
+    </ClientOnly>
+  );
+}
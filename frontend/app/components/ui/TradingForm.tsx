@@ -1,20 +1,50 @@
-import { useReadContract, useWaitForTransactionReceipt, useWriteContract } from "wagmi";
+import {
+  useAccount,
+  usePublicClient,
+  useReadContract,
+  useSwitchChain,
+  useWriteContract,
+} from "wagmi";
 import { BONDING_CURVE_ABI } from "~/constants/BONDING_CURVE_ABI";
-import { decodeEventLog, maxUint256, parseEther, parseUnits } from "viem";
+import {
+  BaseError,
+  UserRejectedRequestError,
+  formatUnits,
+  maxUint256,
+  parseEther,
+  parseUnits,
+} from "viem";
 import { useFundWallet } from "@fund/wallet/provider";
+import { useTransactions } from "@fund/transactions/provider";
 import { ClientOnly } from "remix-utils/client-only";
 import { Drawer, DrawerContent, DrawerHeader, DrawerTitle } from "@shadcn/drawer";
 import { ButtonArrow, ButtonMagnet } from "@fund/button";
 import { Button } from "@shadcn/button";
-import { useEffect, useRef, useState } from "react";
+import { useEffect, useMemo, useRef, useState } from "react";
 import { toast } from "sonner";
+import { NavLink } from "react-router";
 import { ERC20_ABI } from "~/constants/ERC20_ABI";
+import { minimumOut, quoteTrade } from "~/utils/curve";
+import { formatAmount, formatPercent, parseAmount } from "~/utils/format";
+import {
+  DEFAULT_SLIPPAGE,
+  MAX_SLIPPAGE,
+  SLIPPAGE_PRESETS,
+  loadApprovalStrategy,
+  loadSlippage,
+  saveSlippage,
+  type ApprovalStrategy,
+} from "@services/settings";
+
+// headroom on the gas estimate for MAX buys, in percent of the estimate
+const GAS_BUFFER_PERCENT = 130n;
 
 interface TradingFormProps {
   type: "buy" | "sell";
   baseToken: { icon: string; name: string };
   quoteToken: { icon: string; name: string | null };
-  balance: number;
+  /** raw balance of what is being spent: the native coin for buys, the campaign token for sells */
+  balance: bigint;
   amount: string;
   setAmount: (amount: string) => void;
   setIsOpen: (open: boolean) => void;
@@ -22,6 +52,8 @@ interface TradingFormProps {
   setTxType: (type: "buy" | "sell") => void;
   bondingCurveAddress: `0x${string}`;
   contractAddress: `0x${string}`;
+  /** network the token lives on, the wallet is switched to it before signing */
+  chainId: number;
   refetchNativeBalance?: () => void;
 }
 
@@ -37,9 +69,13 @@ export const TradingForm = ({
   isOpen,
   bondingCurveAddress,
   contractAddress,
+  chainId,
   refetchNativeBalance,
 }: TradingFormProps) => {
   const { isConnected, connectors } = useFundWallet();
+  const publicClient = usePublicClient({ chainId });
+  const { chainId: walletChainId } = useAccount();
+  const { switchChainAsync } = useSwitchChain();
   const LIST_SHORTCUT = [25, 50, 75, 100];
 
   const displayToken = type === "buy" ? baseToken : quoteToken;
@@ -47,39 +83,130 @@ export const TradingForm = ({
   const receiveToken = type === "buy" ? quoteToken : baseToken;
 
   const { address: userAddress } = useFundWallet();
-  const shouldExecuteAfterApprove = useRef(false);
+  // the output the user agreed to when pressing the button, re-checked right before signing
+  const expectedOut = useRef(0n);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [slippage, setSlippage] = useState(DEFAULT_SLIPPAGE);
+  const [customSlippage, setCustomSlippage] = useState("");
+
+  const [approvalStrategy, setApprovalStrategy] = useState<ApprovalStrategy>("unlimited");
+
+  useEffect(() => {
+    setSlippage(loadSlippage());
+    setApprovalStrategy(loadApprovalStrategy());
+  }, []);
+
+  const changeSlippage = (value: number) => {
+    if (!(value > 0 && value <= MAX_SLIPPAGE)) return;
+    setSlippage(value);
+    saveSlippage(value);
+  };
 
   const handleAmountChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const value = e.target.value;
-    if (value === "" || (/^\d*\.?\d*$/.test(value) && Number(value) >= 0)) {
+    if (value === "" || value === "." || parseAmount(value) !== null) {
       setAmount(value);
     }
   };
 
-  const setPercentage = (percentage: number) => {
-    const adjustedPercentage = percentage === 100 ? 98 : percentage; // to avoid 100% for trade, we need gas
-    const calculatedAmount = (balance * adjustedPercentage) / 100;
+  /** native balance minus a buffered gas estimate for `buy`, the most a buy can send */
+  const spendableNative = async () => {
+    if (!publicClient || typeof minBuy !== "bigint") return 0n;
 
-    setAmount(calculatedAmount.toFixed(2));
+    const [nativeBalance, gas, feePerGas] = await Promise.all([
+      publicClient.getBalance({ address: userAddress }),
+      publicClient.estimateContractGas({
+        abi: BONDING_CURVE_ABI,
+        address: bondingCurveAddress,
+        functionName: "buy",
+        value: minBuy,
+        account: userAddress,
+      }),
+      publicClient
+        .estimateFeesPerGas()
+        .then((fees) => fees.maxFeePerGas)
+        .catch(() => publicClient.getGasPrice()),
+    ]);
+    const gasCost = ((gas * GAS_BUFFER_PERCENT) / 100n) * feePerGas;
+
+    return nativeBalance > gasCost ? nativeBalance - gasCost : 0n;
   };
 
-  const { data: contractReturn } = useReadContract({
+  const setPercentage = async (percentage: number) => {
+    try {
+      const available =
+        type === "buy"
+          ? await spendableNative()
+          : typeof tokenBalance === "bigint"
+            ? tokenBalance
+            : 0n;
+      const value = (available * BigInt(percentage)) / 100n;
+
+      if (type === "buy" && typeof minBuy === "bigint" && value < minBuy) {
+        toast.error(
+          `Not enough ${baseToken.name} left after gas for the ${formatAmount(minBuy)} ${baseToken.name} minimum buy`
+        );
+      }
+      setAmount(formatUnits(value, 18));
+    } catch (error) {
+      console.error("Gas estimation error:", error);
+      toast.error("Couldn't estimate gas, enter an amount manually");
+    }
+  };
+
+  const { data: currentPrice, refetch: refetchPrice } = useReadContract({
     abi: BONDING_CURVE_ABI,
     address: bondingCurveAddress,
-    functionName: type === "buy" ? "calculateBuyReturn" : "calculateSellReturn",
-    args: [parseUnits(amount || "0", 18)],
-    query: {
-      enabled: !!amount && Number(amount) > 0,
-    },
+    functionName: "getCurrentPrice",
+    chainId,
+  });
+
+  const { data: minBuy } = useReadContract({
+    abi: BONDING_CURVE_ABI,
+    address: bondingCurveAddress,
+    functionName: "MIN_BUY",
+    chainId,
+  });
+
+  const { data: platformFee } = useReadContract({
+    abi: BONDING_CURVE_ABI,
+    address: bondingCurveAddress,
+    functionName: "PLATFORM_FEE",
+    chainId,
   });
 
+  const amountIn = useMemo(() => parseAmount(amount) ?? 0n, [amount]);
+
+  const quote = useMemo(
+    () =>
+      typeof currentPrice === "bigint" && typeof platformFee === "bigint"
+        ? quoteTrade(type, amountIn, { price: currentPrice, platformFee })
+        : undefined,
+    [type, amountIn, currentPrice, platformFee]
+  );
+
   const receiveAmount =
-    !amount || Number(amount) <= 0
-      ? "0.00"
-      : contractReturn
-        ? (Number(contractReturn) / 1e18).toFixed(2)
-        : "Calculating...";
+    amountIn <= 0n ? "0.00" : quote ? formatAmount(quote.amountOut) : "Calculating...";
+  const isBelowMinBuy =
+    type === "buy" && typeof minBuy === "bigint" && amountIn > 0n && amountIn < minBuy;
+
+  /** reads the curve again and refuses when the fresh quote fell outside the tolerance */
+  const isQuoteStillValid = async () => {
+    const { data: latestPrice } = await refetchPrice();
+    if (typeof latestPrice !== "bigint" || typeof platformFee !== "bigint") {
+      toast.error("Couldn't refresh the price, try again");
+      return false;
+    }
+
+    const fresh = quoteTrade(type, amountIn, { price: latestPrice, platformFee });
+    if (fresh.amountOut < minimumOut(expectedOut.current, slippage)) {
+      toast.error(
+        `Price moved more than your ${slippage}% slippage tolerance, review the new quote`
+      );
+      return false;
+    }
+    return true;
+  };
 
   // Allowance
   const { data: currentAllowance, refetch: refetchAllowance } = useReadContract({
@@ -87,36 +214,15 @@ export const TradingForm = ({
     address: contractAddress,
     functionName: "allowance",
     args: [userAddress, bondingCurveAddress],
+    chainId,
     query: {
       enabled: !!userAddress && !!bondingCurveAddress,
     },
   });
 
-  // Approve
-  const {
-    writeContract: approve,
-    data: txApprove,
-    isPending: isApprovePending,
-    error: approveError,
-    reset: resetApprove,
-  } = useWriteContract();
-
-  const { data: approveReceipt } = useWaitForTransactionReceipt({
-    hash: txApprove,
-  });
-
-  // Tx
-  const {
-    writeContract: tx,
-    data: txHash,
-    isPending: isTxPending,
-    error: txError,
-    reset: resetTx,
-  } = useWriteContract();
-
-  const { data: txReceipt } = useWaitForTransactionReceipt({
-    hash: txHash,
-  });
+  const { writeContractAsync } = useWriteContract();
+  const { track } = useTransactions();
+  const [step, setStep] = useState<"idle" | "approving" | "trading">("idle");
 
   // Check balance
   const { data: tokenBalance, refetch: refetchBalance } = useReadContract({
@@ -124,16 +230,26 @@ export const TradingForm = ({
     address: contractAddress,
     functionName: "balanceOf",
     args: [userAddress],
+    chainId,
     query: {
       enabled: !!userAddress,
     },
   });
 
+  /** approve (sells only, when the allowance is short), then trade, each tracked until it settles */
   const doTransactions = async () => {
+    if (isBelowMinBuy) {
+      toast.error(`The minimum buy is ${formatAmount(minBuy as bigint)} ${baseToken.name}`);
+      return;
+    }
+    if (!quote) return;
+    setIsSubmitting(true);
+    expectedOut.current = quote.amountOut;
+
     try {
-      const tokenAmount = parseUnits(amount, 18);
-      setIsSubmitting(true);
+      if (walletChainId !== chainId) await switchChainAsync({ chainId });
 
+      const tokenAmount = parseUnits(amount, 18);
       const needsApproval =
         type === "sell" &&
         currentAllowance !== undefined &&
@@ -141,99 +257,57 @@ export const TradingForm = ({
         BigInt(currentAllowance.toString()) < tokenAmount;
 
       if (needsApproval) {
-        toast.info("Approving tokens...");
-        shouldExecuteAfterApprove.current = true;
-        approve({
+        setStep("approving");
+        const approveHash = await writeContractAsync({
           abi: ERC20_ABI,
           address: contractAddress,
           functionName: "approve",
-          args: [bondingCurveAddress, maxUint256],
+          args: [bondingCurveAddress, approvalStrategy === "exact" ? tokenAmount : maxUint256],
+          chainId,
         });
-        return;
+        const approval = await track({
+          hash: approveHash,
+          chainId,
+          label: `Approve ${balanceToken.name ?? "token"}`,
+        });
+        if (approval.status !== "confirmed") return;
+        refetchAllowance();
       }
 
-      toast.info(`Processing ${type} transaction...`);
-      shouldExecuteAfterApprove.current = false;
-      tx({
+      // the approval can take a while to land, so the quote is checked right before signing
+      if (!(await isQuoteStillValid())) return;
+
+      setStep("trading");
+      const tradeHash = await writeContractAsync({
         abi: BONDING_CURVE_ABI,
         address: bondingCurveAddress,
         functionName: type,
         ...(type === "sell" && { args: [tokenAmount] }),
         ...(type === "buy" && { value: parseEther(amount) }),
+        chainId,
       });
+      const trade = await track({
+        hash: tradeHash,
+        chainId,
+        label: `${type === "buy" ? "Buy" : "Sell"} ${amount} ${displayToken.name ?? ""}`.trim(),
+      });
+      if (trade.status === "confirmed") {
+        refetchBalance();
+        refetchNativeBalance?.();
+      }
     } catch (error) {
       console.error("Transaction error:", error);
-      toast.error("Failed to initiate transaction");
+      toast.error(
+        error instanceof BaseError && error.walk((e) => e instanceof UserRejectedRequestError)
+          ? "Transaction was rejected"
+          : "Failed to send transaction"
+      );
+    } finally {
+      setStep("idle");
       setIsSubmitting(false);
     }
   };
 
-  useEffect(() => {
-    if (approveError) {
-      toast.error("Approval was rejected");
-      resetApprove();
-    }
-  }, [approveError, resetApprove]);
-
-  useEffect(() => {
-    if (txError) {
-      toast.error("Transaction was rejected");
-      resetTx();
-      setIsSubmitting(false);
-    }
-  }, [txError, resetTx]);
-
-  useEffect(() => {
-    if (approveReceipt?.status === "success" && shouldExecuteAfterApprove.current) {
-      toast.success("Approval successful!");
-
-      const tokenAmount = parseUnits(amount, 18);
-      tx({
-        abi: BONDING_CURVE_ABI,
-        address: bondingCurveAddress,
-        functionName: type,
-        ...(type === "sell" && { args: [tokenAmount] }),
-        ...(type === "buy" && { value: parseEther(amount) }),
-      });
-
-      shouldExecuteAfterApprove.current = false;
-    }
-  }, [approveReceipt]);
-
-  useEffect(() => {
-    if (txReceipt) {
-      setIsSubmitting(false);
-
-      for (const log of txReceipt.logs) {
-        try {
-          const decoded = decodeEventLog({
-            abi: BONDING_CURVE_ABI,
-            data: log.data,
-            topics: log.topics,
-          });
-
-          if (decoded.eventName === "Bought") {
-            setTimeout(() => toast.success("Buy successful! 🥳"), 3000);
-            refetchBalance?.();
-            refetchNativeBalance?.();
-          } else if (decoded.eventName === "Sold") {
-            setTimeout(() => toast.success("Sell successful! 🥳"), 3000);
-            refetchBalance?.();
-            refetchNativeBalance?.();
-          }
-        } catch (error) {
-          console.error("Decoding error:", error);
-        }
-      }
-    }
-  }, [txReceipt]);
-
-  useEffect(() => {
-    if (approveReceipt?.status === "success") {
-      refetchAllowance?.();
-    }
-  }, [approveReceipt]);
-
   return (
     <div className="flex flex-col gap-4">
       <div>
@@ -265,12 +339,18 @@ export const TradingForm = ({
         </div>
       </div>
 
+      {isBelowMinBuy && (
+        <p className="text-sm text-red-400">
+          The minimum buy is {formatAmount(minBuy as bigint)} {baseToken.name}.
+        </p>
+      )}
+
       <div className="text-sm text-gray-600">
         Available:{" "}
         {isConnected
           ? type === "buy"
-            ? `${balance.toFixed(4)} ${balanceToken.name}`
-            : `${tokenBalance ? (Number(tokenBalance) / 1e18).toFixed(4) : "0.00"} ${balanceToken.name}`
+            ? `${formatAmount(balance)} ${balanceToken.name}`
+            : `${formatAmount(typeof tokenBalance === "bigint" ? tokenBalance : 0n)} ${balanceToken.name}`
           : "0"}
       </div>
 
@@ -282,13 +362,67 @@ export const TradingForm = ({
         ))}
       </div>
 
-      <div className="border-t pt-2">
+      <div className="flex flex-row flex-wrap items-center gap-2 text-sm">
+        <span>Slippage:</span>
+        {SLIPPAGE_PRESETS.map((value) => (
+          <Button
+            key={value}
+            size="sm"
+            variant={slippage === value && !customSlippage ? "secondary" : "outline"}
+            onClick={() => {
+              setCustomSlippage("");
+              changeSlippage(value);
+            }}
+          >
+            {value}%
+          </Button>
+        ))}
+        <input
+          type="text"
+          inputMode="decimal"
+          value={customSlippage}
+          onChange={(e) => {
+            if (!/^\d*\.?\d*$/.test(e.target.value)) return;
+            setCustomSlippage(e.target.value);
+            changeSlippage(Number(e.target.value));
+          }}
+          placeholder={`${slippage}%`}
+          className="w-16 border rounded-md px-2 py-1 outline-none"
+        />
+      </div>
+
+      {type === "sell" && (
+        <div className="text-sm text-gray-600">
+          Approvals: {approvalStrategy === "exact" ? "exact amount" : "unlimited"} ·{" "}
+          <NavLink to="/approvals" className="underline">
+            manage
+          </NavLink>
+        </div>
+      )}
+
+      <div className="border-t pt-2 flex flex-col gap-1">
         <div className="flex justify-between text-sm">
           <span>What you receive:</span>
           <span>
             {receiveAmount} {receiveToken.name}
           </span>
         </div>
+        {quote && amountIn > 0n && (
+          <>
+            <div className="flex justify-between text-sm text-gray-600">
+              <span>Minimum received:</span>
+              <span>
+                {formatAmount(minimumOut(quote.amountOut, slippage))} {receiveToken.name}
+              </span>
+            </div>
+            <div className="flex justify-between text-sm text-gray-600">
+              <span>Fee ({formatPercent(Number(platformFee) / 100)}):</span>
+              <span>
+                {formatAmount(quote.fee)} {baseToken.name}
+              </span>
+            </div>
+          </>
+        )}
       </div>
 
       <ClientOnly>
@@ -297,9 +431,9 @@ export const TradingForm = ({
             <ButtonMagnet
               onClick={() => doTransactions()}
               color={type === "buy" ? "green" : "pink"}
-              disabled={isApprovePending || isSubmitting}
+              disabled={isSubmitting}
             >
-              {isApprovePending
+              {step === "approving"
                 ? "Approving..."
                 : isSubmitting
                   ? "Processing..."
@@ -1,3 +0,0 @@
-// export const CONTRACT_ADDRESS = "0xfeaa9715Ae6fa91338c6866bD78563249f9525Da"; // Sepolia
-export const CONTRACT_ADDRESS = "0x92d3A495E6f198a23aceE3Ff5F06Dd47510D88D3"; // edu testnet
-// export const CONTRACT_ADDRESS = "0xA7CdEE2B7f5c491E6e7a9763cC37Cf147Ba307b3" // op sepolia
@@ -12,9 +12,12 @@ import "./assets/styles/app.css";
 import { WagmiProvider } from "wagmi";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { FundWalletProvider } from "@fund/wallet/provider";
+import { WatchlistProvider } from "@fund/watchlist/provider";
+import { TransactionsProvider } from "@fund/transactions/provider";
 import { WAGMI_CONFIG } from "./services/wagmi/config";
 import { DynamicHeader } from "@fund/dynamic-header";
 import { useEffect, useState } from "react";
+import { applyBrowserLocale, displayLocale } from "./utils/format";
 
 export const links: Route.LinksFunction = () => [
   { rel: "preconnect", href: "https://fonts.googleapis.com" },
@@ -51,6 +54,12 @@ export default function App() {
   const queryClient = new QueryClient();
 
   const [tokens, setTokens] = useState([]);
+  // numbers hydrate in en-US, then every formatted value re-renders in the reader's locale
+  const [, setLocale] = useState(displayLocale);
+
+  useEffect(() => {
+    setLocale(applyBrowserLocale());
+  }, []);
 
   useEffect(() => {
     fetch(`${import.meta.env.VITE_BE_URL}/api/tokens/ticker/list`)
@@ -65,8 +74,12 @@ export default function App() {
     <WagmiProvider config={WAGMI_CONFIG}>
       <QueryClientProvider client={queryClient}>
         <FundWalletProvider>
-          {tokens.length !== 0 && <DynamicHeader listTokens={tokens} title="root" />}
-          <Outlet />
+          <WatchlistProvider>
+            <TransactionsProvider>
+              {tokens.length !== 0 && <DynamicHeader listTokens={tokens} title="root" />}
+              <Outlet />
+            </TransactionsProvider>
+          </WatchlistProvider>
         </FundWalletProvider>
       </QueryClientProvider>
     </WagmiProvider>
@@ -4,11 +4,19 @@ export default [
   layout("./routes/_layout.tsx", [
     index("./routes/index.tsx"),
     route("/api/list", "./routes/landing/list.tsx"),
+    route("/api/connect", "./routes/connect.tsx"),
+    route("/api/suggest", "./routes/landing/suggest.tsx"),
+    route("/api/candles/:ca", "./routes/details-ca/candles.tsx"),
+    route("/api/trades/:ca", "./routes/details-ca/trades.tsx"),
+    route("/api/portfolio/:address", "./routes/profile/portfolio.tsx"),
     route("/about", "./routes/about/index.tsx"),
     route("/create", "./routes/create/index.tsx"),
     // route("/create-new", "./routes/create/index.tsx"),
     route(":ca", "./routes/details-ca/index.tsx"),
-    route("/profile", "./routes/profile/index.tsx"),
+    route("/profile", "./routes/profile/me.tsx"),
+    route("/profile/:address", "./routes/profile/index.tsx"),
+    route("/admin", "./routes/admin/index.tsx"),
+    route("/approvals", "./routes/approvals/index.tsx"),
     // ...prefix("/market", [
     // index("./routes/market/index.tsx"),
     // ]),
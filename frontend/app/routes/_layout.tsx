@@ -1,5 +1,6 @@
 // import { BottomNav } from "@fund/bottom-nav";
 import { BottomNavigation } from "@fund/bottom-nav";
+import { ActivityPanel } from "@fund/transactions/activity-panel";
 import { Outlet } from "react-router";
 import { Toaster } from "sonner";
 
@@ -8,6 +9,7 @@ function Layout() {
     <>
       <Outlet />
       <BottomNavigation />
+      <ActivityPanel />
       <Toaster />
     </>
   );
@@ -0,0 +1,285 @@
+import type { Route } from "./+types";
+import { NavLink, useFetcher, useNavigate, useSearchParams } from "react-router";
+import { useEffect } from "react";
+import { toast } from "sonner";
+import { getAuthToken } from "@services/cookie";
+import { Badge } from "@shadcn/badge";
+import {
+  Table,
+  TableBody,
+  TableCaption,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@shadcn/table";
+import { TabsOutline, TabsOutlineList, TabsOutlineTrigger } from "@fund/tab/tab-outline";
+import { Pagination } from "~/routes/details-ca/comp/pagination";
+import { addressTrimer } from "~/utils/helper";
+
+export function meta() {
+  return [{ title: "Moderation | GoFundingDotFun" }, { name: "robots", content: "noindex" }];
+}
+
+type ModeratedToken = {
+  _id: string;
+  name: string;
+  ticker: string;
+  contractAddress: string;
+  creatorAddress?: string;
+  status: "active" | "inactive";
+  flagged: boolean;
+  flaggedAt?: string;
+  reportCount: number;
+  descriptionHidden: boolean;
+  embedHidden: boolean;
+};
+
+type AuditEntry = {
+  _id: string;
+  actor: string;
+  action: string;
+  target: string;
+  details: Record<string, unknown>;
+  createdAt: string;
+};
+
+type Paginated<T> = {
+  items: T[];
+  page: number;
+  total: number;
+  totalPages: number;
+};
+
+const FILTERS = [
+  { value: "flagged", label: "Flagged" },
+  { value: "inactive", label: "Inactive" },
+  { value: "all", label: "All" },
+];
+
+/** one-click actions, each maps to a single admin endpoint */
+const ACTIONS: Record<string, (form: FormData) => { path: string; method: string; body?: object }> =
+  {
+    deactivate: (form) => ({
+      path: `/tokens/${form.get("contractAddress")}/status`,
+      method: "PATCH",
+      body: { status: "inactive" },
+    }),
+    activate: (form) => ({
+      path: `/tokens/${form.get("contractAddress")}/status`,
+      method: "PATCH",
+      body: { status: "active" },
+    }),
+    "toggle-description": (form) => ({
+      path: `/tokens/${form.get("contractAddress")}/visibility`,
+      method: "PATCH",
+      body: { descriptionHidden: form.get("hidden") !== "true" },
+    }),
+    "toggle-embed": (form) => ({
+      path: `/tokens/${form.get("contractAddress")}/visibility`,
+      method: "PATCH",
+      body: { embedHidden: form.get("hidden") !== "true" },
+    }),
+    dismiss: (form) => ({ path: `/tokens/${form.get("contractAddress")}/dismiss`, method: "POST" }),
+    ban: (form) => ({
+      path: "/bans",
+      method: "POST",
+      body: { address: form.get("creatorAddress"), reason: "Banned from the moderation console" },
+    }),
+  };
+
+const adminFetch = (token: string, path: string, init: RequestInit = {}) =>
+  fetch(`${process.env.VITE_BE_URL}/api/admin${path}`, {
+    ...init,
+    headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}` },
+  });
+
+export async function loader({ request }: Route.LoaderArgs) {
+  const token = await getAuthToken(request);
+  if (!token) return { authorized: false as const };
+
+  const { searchParams } = new URL(request.url);
+  const filter = searchParams.get("filter") || "flagged";
+  const page = searchParams.get("page") || "1";
+
+  const [tokens, audit] = await Promise.all([
+    adminFetch(token, `/tokens?${new URLSearchParams({ filter, page })}`),
+    adminFetch(token, "/audit-log?limit=10"),
+  ]);
+  if (!tokens.ok || !audit.ok) return { authorized: false as const };
+
+  return {
+    authorized: true as const,
+    filter,
+    tokens: (await tokens.json()) as Paginated<ModeratedToken>,
+    audit: (await audit.json()) as Paginated<AuditEntry>,
+  };
+}
+
+export async function action({ request }: Route.ActionArgs) {
+  const token = await getAuthToken(request);
+  if (!token) return { error: "Sign in first." };
+
+  const form = await request.formData();
+  const toRequest = ACTIONS[String(form.get("intent"))];
+  if (!toRequest) return { error: "Unknown action." };
+
+  const { path, method, body } = toRequest(form);
+  const response = await adminFetch(token, path, { method, body: JSON.stringify(body ?? {}) });
+  if (!response.ok) {
+    const { message } = await response.json();
+    return { error: message || "Action failed." };
+  }
+
+  return { ok: true };
+}
+
+function ActionButton({
+  intent,
+  label,
+  token,
+  hidden,
+}: {
+  intent: string;
+  label: string;
+  token: ModeratedToken;
+  hidden?: boolean;
+}) {
+  const fetcher = useFetcher<typeof action>();
+
+  useEffect(() => {
+    if (fetcher.data && "error" in fetcher.data) toast(fetcher.data.error);
+  }, [fetcher.data]);
+
+  return (
+    <fetcher.Form method="post">
+      <input type="hidden" name="intent" value={intent} />
+      <input type="hidden" name="contractAddress" value={token.contractAddress} />
+      <input type="hidden" name="creatorAddress" value={token.creatorAddress ?? ""} />
+      {hidden !== undefined && <input type="hidden" name="hidden" value={String(hidden)} />}
+      <button
+        type="submit"
+        disabled={fetcher.state !== "idle"}
+        className="px-2 py-1 text-xs rounded-md border border-white/50 hover:bg-white/10 disabled:opacity-50 cursor-pointer"
+      >
+        {label}
+      </button>
+    </fetcher.Form>
+  );
+}
+
+export default function AdminPage({ loaderData }: Route.ComponentProps) {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+
+  if (!loaderData.authorized) {
+    return (
+      <div className="w-full min-h-screen flex flex-col justify-center items-center text-center px-4">
+        <h1 className="text-4xl sm:text-6xl font-bold mb-4">Moderators only</h1>
+        <p className="text-lg text-gray-500">
+          Sign in with a moderator or admin wallet to open the moderation console.
+        </p>
+      </div>
+    );
+  }
+
+  const { filter, tokens, audit } = loaderData;
+  const goTo = (params: Record<string, string>) =>
+    navigate(`?${new URLSearchParams({ ...Object.fromEntries(searchParams), ...params })}`);
+
+  return (
+    <div className="container mt-8 mb-36 flex flex-col gap-8">
+      <h1 className="text-3xl sm:text-5xl">Moderation</h1>
+
+      <TabsOutline value={filter} onValueChange={(value) => goTo({ filter: value, page: "1" })}>
+        <TabsOutlineList className="w-full">
+          {FILTERS.map(({ value, label }) => (
+            <TabsOutlineTrigger key={value} value={value}>
+              {label}
+            </TabsOutlineTrigger>
+          ))}
+        </TabsOutlineList>
+      </TabsOutline>
+
+      <Table>
+        <TableCaption>
+          {tokens.total === 0 ? "Nothing to review." : `${tokens.total} tokens`}
+        </TableCaption>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Token</TableHead>
+            <TableHead>Creator</TableHead>
+            <TableHead>State</TableHead>
+            <TableHead>Actions</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {tokens.items.map((token) => (
+            <TableRow key={token._id} className="odd:bg-transparent even:bg-white/10">
+              <TableCell>
+                <NavLink to={`/${token.contractAddress}`} className="hover:underline">
+                  {token.name} ({token.ticker})
+                </NavLink>
+              </TableCell>
+              <TableCell>{token.creatorAddress && addressTrimer(token.creatorAddress)}</TableCell>
+              <TableCell className="flex flex-wrap gap-1">
+                <Badge variant={token.status === "active" ? "secondary" : "outline"}>
+                  {token.status}
+                </Badge>
+                {token.flagged && <Badge variant="destructive">flagged</Badge>}
+                {token.reportCount > 0 && (
+                  <Badge variant="outline">
+                    {token.reportCount} report{token.reportCount > 1 && "s"}
+                  </Badge>
+                )}
+                {token.descriptionHidden && <Badge variant="outline">description hidden</Badge>}
+                {token.embedHidden && <Badge variant="outline">embed hidden</Badge>}
+              </TableCell>
+              <TableCell>
+                <div className="flex flex-wrap gap-2">
+                  {token.status === "active" ? (
+                    <ActionButton intent="deactivate" label="Deactivate" token={token} />
+                  ) : (
+                    <ActionButton intent="activate" label="Activate" token={token} />
+                  )}
+                  <ActionButton
+                    intent="toggle-description"
+                    label={token.descriptionHidden ? "Show description" : "Hide description"}
+                    token={token}
+                    hidden={token.descriptionHidden}
+                  />
+                  <ActionButton
+                    intent="toggle-embed"
+                    label={token.embedHidden ? "Show embed" : "Hide embed"}
+                    token={token}
+                    hidden={token.embedHidden}
+                  />
+                  {token.flagged && <ActionButton intent="dismiss" label="Dismiss" token={token} />}
+                  {token.creatorAddress && (
+                    <ActionButton intent="ban" label="Ban creator" token={token} />
+                  )}
+                </div>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+      <Pagination
+        onBack={() => goTo({ page: String(Math.max(1, tokens.page - 1)) })}
+        onNext={() => goTo({ page: String(Math.min(tokens.totalPages, tokens.page + 1)) })}
+        currentPage={tokens.page}
+        totalPages={tokens.totalPages}
+      />
+
+      <div className="flex flex-col gap-2">
+        <p className="text-xl">Recent actions</p>
+        {audit.items.map((entry) => (
+          <p key={entry._id} className="text-sm text-gray-400">
+            {new Date(entry.createdAt).toLocaleString()} · {addressTrimer(entry.actor)} ·{" "}
+            {entry.action} · {addressTrimer(entry.target)}
+          </p>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,188 @@
+import type { Route } from "./+types";
+import { useEffect, useState } from "react";
+import { NavLink } from "react-router";
+import { ClientOnly } from "remix-utils/client-only";
+import { erc20Abi, maxUint256, type Address } from "viem";
+import { useAccount, useReadContracts, useSwitchChain, useWriteContract } from "wagmi";
+import { toast } from "sonner";
+import {
+  Table,
+  TableBody,
+  TableCaption,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@shadcn/table";
+import { TabsOutline, TabsOutlineList, TabsOutlineTrigger } from "@fund/tab/tab-outline";
+import { useFundWallet } from "@fund/wallet/provider";
+import { useTransactions } from "@fund/transactions/provider";
+import {
+  loadApprovalStrategy,
+  saveApprovalStrategy,
+  type ApprovalStrategy,
+} from "@services/settings";
+import { getChain } from "@shared/chains";
+import { addressTrimer } from "~/utils/helper";
+import { formatAmount } from "~/utils/format";
+
+export function meta() {
+  return [{ title: "Token Approvals | GoFundingDotFun" }, { name: "robots", content: "noindex" }];
+}
+
+type ListedToken = {
+  _id: string;
+  name: string;
+  ticker: string;
+  chainId: number;
+  contractAddress: Address;
+  bondingCurveAddress?: Address;
+};
+
+export async function loader() {
+  const tokens: ListedToken[] = await fetch(
+    `${process.env.VITE_BE_URL}/api/tokens/curves/list`
+  ).then((res) => res.json());
+
+  return { tokens };
+}
+
+function ApprovalStrategySetting() {
+  const [strategy, setStrategy] = useState<ApprovalStrategy>("unlimited");
+
+  useEffect(() => {
+    setStrategy(loadApprovalStrategy());
+  }, []);
+
+  return (
+    <div className="flex flex-col gap-2">
+      <p className="text-xl">When selling, approve</p>
+      <TabsOutline
+        value={strategy}
+        onValueChange={(value) => {
+          setStrategy(value as ApprovalStrategy);
+          saveApprovalStrategy(value as ApprovalStrategy);
+        }}
+      >
+        <TabsOutlineList className="w-full">
+          <TabsOutlineTrigger value="exact">Exact amount</TabsOutlineTrigger>
+          <TabsOutlineTrigger value="unlimited">Unlimited</TabsOutlineTrigger>
+        </TabsOutlineList>
+      </TabsOutline>
+      <p className="text-sm text-gray-400">
+        Exact approvals cost an extra transaction on most sells but never leave a curve able to move
+        more of your tokens than the sell needs.
+      </p>
+    </div>
+  );
+}
+
+function ApprovalsTable({ tokens }: { tokens: ListedToken[] }) {
+  const { address } = useFundWallet();
+  const { track } = useTransactions();
+  const { writeContractAsync } = useWriteContract();
+  const { chainId } = useAccount();
+  const { switchChainAsync } = useSwitchChain();
+  const [revoking, setRevoking] = useState<string | null>(null);
+
+  const { data: allowances, refetch } = useReadContracts({
+    contracts: tokens.map((token) => ({
+      abi: erc20Abi,
+      address: token.contractAddress,
+      functionName: "allowance",
+      args: [address, token.bondingCurveAddress!],
+      chainId: token.chainId,
+    })),
+  });
+
+  const approved = tokens
+    .map((token, i) => ({ token, allowance: allowances?.[i]?.result as bigint | undefined }))
+    .filter(({ allowance }) => allowance !== undefined && allowance > 0n);
+
+  const revoke = async (token: ListedToken) => {
+    setRevoking(token.contractAddress);
+    try {
+      if (chainId !== token.chainId) await switchChainAsync({ chainId: token.chainId });
+
+      const hash = await writeContractAsync({
+        abi: erc20Abi,
+        address: token.contractAddress,
+        functionName: "approve",
+        args: [token.bondingCurveAddress!, 0n],
+        chainId: token.chainId,
+      });
+      await track({ hash, label: `Revoke ${token.ticker} approval`, chainId: token.chainId });
+      refetch();
+    } catch (error) {
+      console.error("Revoke error:", error);
+      toast.error("Revoke was rejected");
+    } finally {
+      setRevoking(null);
+    }
+  };
+
+  return (
+    <Table>
+      <TableCaption>
+        {allowances === undefined
+          ? "Reading allowances..."
+          : approved.length === 0
+            ? "No curve can spend your tokens."
+            : `${approved.length} active approvals`}
+      </TableCaption>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Token</TableHead>
+          <TableHead>Curve</TableHead>
+          <TableHead>Allowance</TableHead>
+          <TableHead />
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {approved.map(({ token, allowance }) => (
+          <TableRow key={token._id} className="odd:bg-transparent even:bg-white/10">
+            <TableCell>
+              <NavLink to={`/${token.contractAddress}`} className="hover:underline">
+                {token.name} ({token.ticker})
+              </NavLink>
+              <p className="text-xs text-gray-400">{getChain(token.chainId).name}</p>
+            </TableCell>
+            <TableCell>{addressTrimer(token.bondingCurveAddress!)}</TableCell>
+            <TableCell>
+              {allowance === maxUint256 ? "Unlimited" : formatAmount(allowance!)}
+            </TableCell>
+            <TableCell>
+              <button
+                onClick={() => revoke(token)}
+                disabled={revoking !== null}
+                className="px-2 py-1 text-xs rounded-md border border-white/50 hover:bg-white/10 disabled:opacity-50 cursor-pointer"
+              >
+                {revoking === token.contractAddress ? "Revoking..." : "Revoke"}
+              </button>
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
+
+export default function ApprovalsPage({ loaderData }: Route.ComponentProps) {
+  const { isConnected } = useFundWallet();
+
+  return (
+    <div className="container mt-8 mb-36 flex flex-col gap-8">
+      <h1 className="text-3xl sm:text-5xl">Approvals</h1>
+      <ClientOnly>{() => <ApprovalStrategySetting />}</ClientOnly>
+      <ClientOnly>
+        {() =>
+          isConnected ? (
+            <ApprovalsTable tokens={loaderData.tokens} />
+          ) : (
+            <p className="italic">Connect your wallet to see which curves can spend your tokens.</p>
+          )
+        }
+      </ClientOnly>
+    </div>
+  );
+}
@@ -1,29 +1,38 @@
 import { clearWalletSession, saveWalletSession } from "@services/cookie";
-import type { Route } from "./+types";
+import type { Route } from "./+types/connect";
 import { redirectDocument } from "react-router";
 
+/**
+ * Keeps the SIWE session in the cookie so loaders can act for the wallet. The token is checked
+ * against the backend first, a bare address is never trusted.
+ */
 export async function action({ request }: Route.ActionArgs) {
-  const { address, disconnect } = await request.json();
+  const { token, disconnect } = await request.json();
 
   if (typeof disconnect != "undefined" && disconnect == "") {
     const session = await clearWalletSession(request);
 
-    console.log("dia masuk ke disconnect");
-    return redirectDocument("/", {
-      status: 302,
+    return new Response(JSON.stringify({ success: true }), {
+      status: 200,
       headers: {
         "Set-Cookie": session,
       },
     });
   }
 
-  if (!address) {
-    return new Response(JSON.stringify({ error: "No address provided" }), { status: 400 });
+  if (!token) {
+    return new Response(JSON.stringify({ error: "No token provided" }), { status: 400 });
   }
 
-  console.log("dia masuk ke address");
+  const response = await fetch(`${process.env.VITE_BE_URL}/api/auth/session`, {
+    headers: { Authorization: `Bearer ${token}` },
+  });
+  if (!response.ok) {
+    return new Response(JSON.stringify({ error: "Invalid session" }), { status: 401 });
+  }
 
-  const session = await saveWalletSession(address, request);
+  const { address } = await response.json();
+  const session = await saveWalletSession({ address, token }, request);
 
   return new Response(JSON.stringify({ success: true }), {
     status: 200,
@@ -33,8 +42,7 @@ export async function action({ request }: Route.ActionArgs) {
   });
 }
 
-export async function loader({ request }: Route.LoaderArgs) {
-  console.log("dia masuk loader");
+export async function loader() {
   return redirectDocument("/", {
     status: 302,
   });
@@ -1,5 +1,6 @@
 import { AlertCircle, Check, X } from "lucide-react";
 import React from "react";
+import { formatAmount } from "~/utils/format";
 
 interface Props {
   onClose: () => void;
@@ -9,9 +10,11 @@ interface Props {
     name: string;
     ticker: string;
     initialBuyAmount: string;
-    initialTokens: number;
+    /** raw token amount, 18 decimals */
+    initialTokens: bigint;
   };
   image?: File | null;
+  nativeSymbol: string;
 }
 
 export const ConfirmLaunchModal: React.FC<Props> = ({
@@ -20,6 +23,7 @@ export const ConfirmLaunchModal: React.FC<Props> = ({
   isLoading,
   formData,
   image,
+  nativeSymbol,
 }) => {
   return (
     <div className="fixed inset-0 bg-black/50 flex items-center justify-center p-4 z-50">
@@ -66,18 +70,21 @@ export const ConfirmLaunchModal: React.FC<Props> = ({
                 <div className="font-medium text-right">1,000,000,000</div>
 
                 <div className="text-muted-foreground">Initial Buy:</div>
-                <div className="font-medium text-right">{formData.initialBuyAmount} EDU</div>
+                <div className="font-medium text-right">
+                  {formData.initialBuyAmount} {nativeSymbol}
+                </div>
 
                 <div className="text-muted-foreground">Token Amount:</div>
                 <div className="font-medium text-right">
-                  {formData.initialTokens.toLocaleString()} {formData.ticker}
+                  {formatAmount(formData.initialTokens, { maximumFractionDigits: 0 })}{" "}
+                  {formData.ticker}
                 </div>
               </div>
             </div>
 
             <div className="border border-input rounded-lg p-4 space-y-2 text-sm sm:text-base">
               <p className="text-muted-foreground">
-                Launch cost: 0.1 EDU (liquidity) + 0.25 EDU (gas)
+                Launch cost: 0.1 {nativeSymbol} (liquidity) + 0.25 {nativeSymbol} (gas)
               </p>
               <p className="text-muted-foreground">Token supply: 1,000,000,000 tokens (fixed)</p>
               <p className="text-muted-foreground">
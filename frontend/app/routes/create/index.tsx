@@ -3,12 +3,16 @@ import { ScrambleText } from "@fund/scramble-text";
 import { toast } from "sonner";
 import { ImageUploader } from "./comp/image-uploader";
 import { ConfirmLaunchModal } from "./comp/modal";
-import { useWaitForTransactionReceipt, useWriteContract } from "wagmi";
+import { useAccount, useWaitForTransactionReceipt, useWriteContract } from "wagmi";
 import { ABI } from "~/constants/TOKEN_LAUNCHER_ABI";
-import { CONTRACT_ADDRESS } from "~/constants/CA";
 import { decodeEventLog, parseEther } from "viem";
 import { useNavigate } from "react-router";
 import { useFundWallet } from "@fund/wallet/provider";
+import { authHeaders } from "@services/auth";
+import { getChain, isSupportedChain } from "@shared/chains";
+import { toFieldErrors, type FieldError } from "@shared/schemas/common";
+import { tokenFormSchema } from "@shared/schemas/token";
+import { formatAmount, parseAmount } from "~/utils/format";
 
 export function meta() {
   const title = "Create a Token | GoFundingDotFun";
@@ -37,6 +41,9 @@ export function meta() {
   ];
 }
 
+// rough preview rate for the initial buy, the curve decides the real amount
+const INITIAL_TOKENS_PER_EDU = 42_000n;
+
 export default function Create() {
   const navigate = useNavigate();
   const [formData, setFormData] = useState({
@@ -45,7 +52,6 @@ export default function Create() {
     description: "",
     donationAddress: "",
     initialBuyAmount: "1000",
-    initialTokens: 1_000_000,
     embedCode: "",
   });
 
@@ -53,7 +59,13 @@ export default function Create() {
   const [showModal, setShowModal] = useState(false);
   const [agreedToTerms, setAgreedToTerms] = useState(false);
   const [image, setImage] = useState<File | null>(null);
-  const { isConnected } = useFundWallet();
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const { isConnected, session, signIn } = useFundWallet();
+  const { chainId } = useAccount();
+  // the network the token is deployed on, fixed once the launch is confirmed
+  const [launchChainId, setLaunchChainId] = useState<number>();
+  const chain = getChain(launchChainId ?? chainId);
+  const initialTokens = (parseAmount(formData.initialBuyAmount) ?? 0n) * INITIAL_TOKENS_PER_EDU;
 
   const {
     writeContract: createToken,
@@ -64,6 +76,7 @@ export default function Create() {
   const { data: createTokenReceipt, isLoading: loadingCreateTokenReceipt } =
     useWaitForTransactionReceipt({
       hash: hashCreateToken,
+      chainId: launchChainId,
     });
 
   const handleChange = (e: ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
@@ -71,18 +84,49 @@ export default function Create() {
     setFormData((prev) => ({ ...prev, [name]: value }));
   };
 
-  const handleSubmit = (e: FormEvent) => {
+  const handleSubmit = async (e: FormEvent) => {
     e.preventDefault();
-    if (agreedToTerms) setShowModal(true);
+
+    const result = tokenFormSchema.safeParse(formData);
+    setErrors(
+      result.success
+        ? {}
+        : Object.fromEntries(
+            toFieldErrors(result.error).map(({ field, message }) => [field, message])
+          )
+    );
+
+    if (!result.success || !agreedToTerms) return;
+
+    if (!chainId || !isSupportedChain(chainId)) {
+      toast("Switch your wallet to a supported network first");
+      return;
+    }
+
+    // the listing is tied to the signed-in wallet, sign in before anything is deployed
+    if (!session) {
+      try {
+        await signIn();
+      } catch (error) {
+        toast(`Sign in to launch a token: ${error}`);
+        return;
+      }
+    }
+    setShowModal(true);
   };
 
+  const fieldError = (field: string) =>
+    errors[field] && <p className="mt-1 text-sm text-red-500">{errors[field]}</p>;
+
   const confirmLaunch = async () => {
     setIsLoading(true);
 
     try {
+      setLaunchChainId(chain.id);
       createToken({
         abi: ABI,
-        address: CONTRACT_ADDRESS,
+        address: chain.launcherAddress,
+        chainId: chain.id,
         functionName: "createToken",
         args: [formData.name, formData.ticker],
         value: parseEther("0.1"), // min buy
@@ -101,16 +145,16 @@ export default function Create() {
   }) => {
     try {
       const payload = {
+        chainId: chain.id,
         name: formData.name,
         ticker: formData.ticker,
         description: formData.description,
         initialBuyPerToken: Number(formData.initialBuyAmount),
-        marketCap: 5_000, // WIP
+        creationTxHash: hashCreateToken,
         contractAddress: tokenAddress,
         donationAddress: formData.donationAddress,
         embedCode: formData.embedCode,
         bondingCurveAddress: bondingAddress, // WIP
-        status: "active",
       };
 
       const compiledFD = new FormData();
@@ -119,12 +163,14 @@ export default function Create() {
 
       const response = await fetch(`${import.meta.env.VITE_BE_URL}/api/tokens`, {
         method: "POST",
+        headers: authHeaders(session),
         body: compiledFD,
       });
 
       if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.message || "Failed to create token");
+        const errorData: { message?: string; errors?: FieldError[] } = await response.json();
+        const details = errorData.errors?.map(({ message }) => message).join(", ");
+        throw new Error(details || errorData.message || "Failed to create token");
       }
 
       setShowModal(false);
@@ -198,6 +244,7 @@ export default function Create() {
                   className="w-full p-3 border border-input rounded-lg bg-background text-sm sm:text-base"
                   required
                 />
+                {fieldError("name")}
               </div>
 
               <div>
@@ -210,6 +257,7 @@ export default function Create() {
                   className="w-full p-3 border border-input rounded-lg bg-background text-sm sm:text-base"
                   required
                 />
+                {fieldError("ticker")}
               </div>
 
               <div>
@@ -222,6 +270,7 @@ export default function Create() {
                   className="w-full p-3 border border-input rounded-lg bg-background min-h-[100px] sm:min-h-[120px] text-sm sm:text-base"
                   required
                 />
+                {fieldError("description")}
               </div>
 
               <div>
@@ -239,6 +288,7 @@ export default function Create() {
                     />
                   </div>
                 </div>
+                {fieldError("donationAddress")}
               </div>
 
               <div>
@@ -256,21 +306,20 @@ export default function Create() {
                         setFormData((prev) => ({
                           ...prev,
                           initialBuyAmount: amount,
-                          initialTokens: amount ? Number(amount) * 42000 : 0,
                         }));
                       }}
                       className="w-full p-3 border border-input rounded-lg bg-background text-sm sm:text-base"
                     />
                     <div className="absolute inset-y-0 right-0 flex items-center">
                       <div className="h-full flex items-center justify-center px-3 bg-secondary text-secondary-foreground rounded-r-lg border-l border-input text-sm">
-                        EDU
+                        {chain.nativeCurrency.symbol}
                       </div>
                     </div>
                   </div>
                   <div className="relative">
                     <input
                       readOnly
-                      value={formData.initialTokens ? formData.initialTokens.toLocaleString() : "0"}
+                      value={formatAmount(initialTokens, { maximumFractionDigits: 0 })}
                       className="w-full p-3 border border-input rounded-lg bg-background text-sm sm:text-base"
                     />
                   </div>
@@ -295,6 +344,7 @@ export default function Create() {
                   rows={12}
                   required
                 />
+                {fieldError("embedCode")}
               </div>
             </div>
           </div>
@@ -335,7 +385,8 @@ export default function Create() {
             onClose={() => setShowModal(false)}
             onConfirm={confirmLaunch}
             isLoading={isLoading}
-            formData={formData}
+            formData={{ ...formData, initialTokens }}
+            nativeSymbol={chain.nativeCurrency.symbol}
             image={image}
           />
         )}
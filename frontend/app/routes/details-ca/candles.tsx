@@ -0,0 +1,11 @@
+import type { Route } from "./+types/candles";
+
+export async function loader({ params, request }: Route.LoaderArgs) {
+  const { searchParams } = new URL(request.url);
+
+  const candles = await fetch(
+    `${process.env.VITE_BE_URL}/api/market/${params.ca}/candles?${searchParams}`
+  ).then((res) => res.json());
+
+  return candles;
+}
@@ -2,53 +2,57 @@ import { useEffect, useState } from "react";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@shadcn/tabs";
 import { TradingForm } from "~/components/ui/TradingForm";
 import { useFundWallet } from "@fund/wallet/provider";
-import { formatEther, type Address } from "viem";
+import type { Address } from "viem";
 import { useBalance, useReadContract, useToken } from "wagmi";
-import { BONDING_CURVE_ABI } from "~/constants/BONDING_CURVE_ABI";
 import { ERC20_ABI } from "~/constants/ERC20_ABI";
+import { getChain } from "@shared/chains";
 
 interface BuySellTabsProps {
   contractAddress: string;
   imageUrl: string;
   bondingCurveAddress: `0x${string}`;
+  chainId: number;
 }
 
-export function BuySellTabs({ contractAddress, imageUrl, bondingCurveAddress }: BuySellTabsProps) {
+export function BuySellTabs({
+  contractAddress,
+  imageUrl,
+  bondingCurveAddress,
+  chainId,
+}: BuySellTabsProps) {
   const [quoteTokenName, setQuoteTokenName] = useState<string | null>(null);
   const [amount, setAmount] = useState<string>("");
   const [isOpen, setIsOpen] = useState(false);
   const [txType, setTxTypeInternal] = useState<"buy" | "sell">("buy");
   const user = useFundWallet();
-  const [balance, setBalance] = useState<number>(0);
-  const [tokenBalance, setTokenBalance] = useState<number>(0);
 
   const { data: tokenBalanceData } = useReadContract({
     abi: ERC20_ABI,
     address: contractAddress as `0x${string}`,
     functionName: "balanceOf",
     args: [user.address as `0x${string}`],
+    chainId,
   });
 
-  const { data: currentPrice } = useReadContract({
-    abi: BONDING_CURVE_ABI,
-    address: bondingCurveAddress as `0x${string}`,
-    functionName: "getCurrentPrice",
+  const { data: dataBalance, refetch: refetchBalance } = useBalance({
+    address: user?.address as Address,
+    chainId,
   });
 
   const pairData = {
-    baseToken: { icon: imageUrl, name: "EDU" },
+    baseToken: { icon: imageUrl, name: getChain(chainId).nativeCurrency.symbol },
     quoteToken: { icon: imageUrl, name: quoteTokenName },
-    balance: txType === "buy" ? balance : tokenBalance,
-    price:
-      currentPrice && typeof currentPrice === "bigint" ? parseFloat(formatEther(currentPrice)) : 0,
+    balance:
+      txType === "buy"
+        ? (dataBalance?.value ?? 0n)
+        : typeof tokenBalanceData === "bigint"
+          ? tokenBalanceData
+          : 0n,
   };
 
-  const { data: dataBalance, refetch: refetchBalance } = useBalance({
-    address: user?.address as Address,
-  });
-
   const { data: dataToken, refetch: refetchToken } = useToken({
     address: contractAddress as Address,
+    chainId,
   });
 
   const setTxType = (type: "buy" | "sell") => {
@@ -56,19 +60,6 @@ export function BuySellTabs({ contractAddress, imageUrl, bondingCurveAddress }:
     setAmount("");
   };
 
-  useEffect(() => {
-    if (tokenBalanceData && typeof tokenBalanceData === "bigint") {
-      const balanceInEther = parseFloat(formatEther(tokenBalanceData));
-      setTokenBalance(balanceInEther);
-    }
-  }, [tokenBalanceData]);
-
-  useEffect(() => {
-    if (dataBalance?.formatted) {
-      setBalance(parseFloat(dataBalance.formatted));
-    }
-  }, [dataBalance]);
-
   useEffect(() => {
     refetchToken();
   }, [contractAddress]);
@@ -112,6 +103,7 @@ export function BuySellTabs({ contractAddress, imageUrl, bondingCurveAddress }:
           isOpen={isOpen}
           bondingCurveAddress={bondingCurveAddress as `0x${string}`}
           contractAddress={contractAddress as `0x${string}`}
+          chainId={chainId}
           refetchNativeBalance={refetchBalance}
         />
       </TabsContent>
@@ -126,6 +118,7 @@ export function BuySellTabs({ contractAddress, imageUrl, bondingCurveAddress }:
           isOpen={isOpen}
           bondingCurveAddress={bondingCurveAddress as `0x${string}`}
           contractAddress={contractAddress as `0x${string}`}
+          chainId={chainId}
           refetchNativeBalance={refetchBalance}
         />
       </TabsContent>
@@ -0,0 +1,101 @@
+import { Drawer, DrawerContent, DrawerHeader, DrawerTitle } from "@shadcn/drawer";
+import { useState } from "react";
+import { ClientOnly } from "remix-utils/client-only";
+import { Flag } from "lucide-react";
+import { toast } from "sonner";
+import { useFundWallet } from "@fund/wallet/provider";
+import { authHeaders } from "@services/auth";
+import {
+  REPORT_DETAILS_MAX_LENGTH,
+  REPORT_REASONS,
+  type ReportReason,
+} from "@shared/schemas/report";
+
+type ReportTokenProps = {
+  contractAddress: string;
+};
+
+export function ReportToken({ contractAddress }: ReportTokenProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [reason, setReason] = useState<ReportReason>("impersonation");
+  const [details, setDetails] = useState("");
+  const [isSending, setIsSending] = useState(false);
+  const { isConnected, session, signIn } = useFundWallet();
+
+  const submitReport = async () => {
+    setIsSending(true);
+    try {
+      const activeSession = session ?? (await signIn());
+      const response = await fetch(
+        `${import.meta.env.VITE_BE_URL}/api/tokens/${contractAddress}/reports`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json", ...authHeaders(activeSession) },
+          body: JSON.stringify({ reason, details: details || undefined }),
+        }
+      );
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || "Failed to send report");
+      }
+
+      toast("Thanks, moderators will take a look.");
+      setIsOpen(false);
+      setDetails("");
+    } catch (error) {
+      toast(`${error instanceof Error ? error.message : error}`);
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <Drawer open={isOpen} onOpenChange={setIsOpen}>
+      <ClientOnly>
+        {() => (
+          <button
+            onClick={() => (isConnected ? setIsOpen(true) : toast("Connect your wallet to report"))}
+            className="flex flex-row gap-1 items-center text-xs text-red-400 cursor-pointer hover:underline"
+          >
+            <Flag className="size-3" />
+            Report
+          </button>
+        )}
+      </ClientOnly>
+      <DrawerContent className="pb-10">
+        <div className="mx-auto w-full max-w-sm flex flex-col gap-4">
+          <DrawerHeader>
+            <DrawerTitle className="text-center font-bold">Report this token</DrawerTitle>
+          </DrawerHeader>
+          {Object.entries(REPORT_REASONS).map(([value, label]) => (
+            <label key={value} className="flex flex-row gap-2 items-center cursor-pointer">
+              <input
+                type="radio"
+                name="reason"
+                value={value}
+                checked={reason === value}
+                onChange={() => setReason(value as ReportReason)}
+              />
+              {label}
+            </label>
+          ))}
+          <textarea
+            placeholder="Anything moderators should know (optional)"
+            value={details}
+            maxLength={REPORT_DETAILS_MAX_LENGTH}
+            onChange={(e) => setDetails(e.target.value)}
+            className="w-full p-3 border border-input rounded-lg bg-background min-h-[100px] text-sm"
+          />
+          <button
+            onClick={submitReport}
+            disabled={isSending}
+            className="w-full py-3 font-medium rounded-lg bg-[#e2ffc7] hover:bg-[#d5f5b9] text-black disabled:opacity-50 cursor-pointer"
+          >
+            {isSending ? "Sending..." : "Send report"}
+          </button>
+        </div>
+      </DrawerContent>
+    </Drawer>
+  );
+}
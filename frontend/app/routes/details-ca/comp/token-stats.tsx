@@ -0,0 +1,102 @@
+import { useEffect } from "react";
+import { parseEther } from "viem";
+import { useBlockNumber, useReadContracts } from "wagmi";
+import { BONDING_CURVE_ABI } from "~/constants/BONDING_CURVE_ABI";
+import { ERC20_ABI } from "~/constants/ERC20_ABI";
+import { formatAmount, formatPercent, formatPrice } from "~/utils/format";
+import { getChain } from "@shared/chains";
+
+// curves read MAX_SUPPLY from the token at construction, before anything is minted, so it can be 0
+const FIXED_SUPPLY = parseEther("1000000000");
+
+type TokenStatsProps = {
+  bondingCurveAddress: `0x${string}`;
+  contractAddress: `0x${string}`;
+  ticker: string;
+  chainId: number;
+};
+
+export function TokenStats({
+  bondingCurveAddress,
+  contractAddress,
+  ticker,
+  chainId,
+}: TokenStatsProps) {
+  const { data: blockNumber } = useBlockNumber({ chainId, watch: true });
+  const symbol = getChain(chainId).nativeCurrency.symbol;
+
+  const curve = { abi: BONDING_CURVE_ABI, address: bondingCurveAddress, chainId } as const;
+  const { data, refetch } = useReadContracts({
+    allowFailure: false,
+    contracts: [
+      { ...curve, functionName: "getCurrentPrice" },
+      { ...curve, functionName: "getMarketCap" },
+      { ...curve, functionName: "totalEthInvested" },
+      { ...curve, functionName: "hasGraduated" },
+      { ...curve, functionName: "MAX_SUPPLY" },
+      { ...curve, functionName: "GRADUATION_THRESHOLD" },
+      { abi: ERC20_ABI, address: contractAddress, functionName: "totalSupply", chainId },
+    ],
+  });
+
+  useEffect(() => {
+    refetch();
+  }, [blockNumber]);
+
+  if (!data) {
+    return (
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-x-4 gap-y-2 text-xs animate-pulse">
+        <p>Market Cap: -</p>
+        <p>Price: -</p>
+        <p>Liquidity: -</p>
+        <p>Remaining: -</p>
+      </div>
+    );
+  }
+
+  const [price, marketCap, totalEthInvested, hasGraduated, maxSupply, threshold, totalSupply] =
+    data as [bigint, bigint, bigint, boolean, bigint, bigint, bigint];
+
+  const supply = maxSupply > 0n ? maxSupply : FIXED_SUPPLY;
+  const remaining = supply > totalSupply ? supply - totalSupply : 0n;
+  const progress = hasGraduated
+    ? 100
+    : threshold > 0n
+      ? Math.min(Number((totalEthInvested * 10_000n) / threshold) / 100, 100)
+      : 0;
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-x-4 gap-y-2 text-xs">
+        <p>
+          Market Cap: {formatAmount(marketCap)} {symbol}
+        </p>
+        <p>
+          Price: {formatPrice(price)} {symbol}
+        </p>
+        <p>
+          Liquidity: {formatAmount(totalEthInvested)} {symbol}
+        </p>
+        <p>
+          Remaining: {formatAmount(remaining, { maximumFractionDigits: 2 })} {ticker}
+        </p>
+      </div>
+      <div className="flex flex-col gap-1 text-xs">
+        <div className="flex justify-between">
+          <span>{hasGraduated ? "Graduated 🎓" : "Graduation progress"}</span>
+          <span>
+            {formatAmount(totalEthInvested, { maximumFractionDigits: 2 })} /{" "}
+            {formatAmount(threshold, { maximumFractionDigits: 0 })} {symbol} (
+            {formatPercent(progress)})
+          </span>
+        </div>
+        <div className="h-2 w-full rounded-full bg-white/10 overflow-hidden">
+          <div
+            className="h-full rounded-full bg-[#e2ffc7] transition-[width]"
+            style={{ width: `${progress}%` }}
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
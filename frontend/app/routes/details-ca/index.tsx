@@ -1,7 +1,8 @@
 import type { Route } from "./+types";
-import { useState } from "react";
-import { ChartFund } from "@fund/chart";
+import { useEffect, useState } from "react";
+import { ChartFund, type Candle } from "@fund/chart";
 import { ToggleGroup, ToggleGroupItem } from "@shadcn/toggle-group";
+import { Input } from "@shadcn/input";
 import { BuySellTabs } from "./comp/buy-sell";
 import { Pagination } from "./comp/pagination";
 import {
@@ -18,16 +19,42 @@ import { ForwardLink } from "@fund/button";
 import { Badge } from "@shadcn/badge";
 import { ChevronLeft, Copy } from "lucide-react";
 import { ShowQR } from "./comp/show-qr";
-import { addressTrimer, generateAddress } from "~/utils/helper";
-import { NavLink } from "react-router";
-
-export type TableItem = {
-  invoice: string;
-  paymentStatus: string;
-  totalAmount: string;
-  paymentMEDUod: string;
+import { ReportToken } from "./comp/report";
+import { WatchlistStar } from "@fund/watchlist/star";
+import { TokenStats } from "./comp/token-stats";
+import { addressTrimer } from "~/utils/helper";
+import { NavLink, useFetcher } from "react-router";
+import { formatAmount, formatPrice } from "~/utils/format";
+import { explorerAddressUrl, explorerTxUrl, getChain } from "@shared/chains";
+import { isAddress } from "viem";
+
+const NO_CANDLES: Candle[] = [];
+
+export type Trade = {
+  _id: string;
+  type: "buy" | "sell";
+  trader: string;
+  ethAmount: string;
+  tokenAmount: string;
+  platformFee: string;
+  price: number;
+  timestamp: string;
+  txHash: string;
+};
+
+type TradesPage = {
+  items: Trade[];
+  page: number;
+  total: number;
+  totalPages: number;
 };
 
+const TRADE_SIDES = ["all", "buy", "sell"];
+
+/** unix seconds at the start (or end) of a `yyyy-mm-dd` day in the viewer's timezone */
+const dayBound = (day: string, end = false) =>
+  String(Math.floor(new Date(`${day}T${end ? "23:59:59" : "00:00:00"}`).getTime() / 1000));
+
 export function meta() {
   const title = "Token Details | GoFundingDotFun";
   const description =
@@ -57,54 +84,77 @@ export function meta() {
 
 export async function loader({ params }: Route.LoaderArgs) {
   const { ca } = params;
-  const token = await fetch(`${process.env.VITE_BE_URL}/api/tokens/${ca}`).then((r) => r.json());
+  const response = await fetch(`${process.env.VITE_BE_URL}/api/tokens/${ca}`);
+  if (!response.ok) throw new Response("Token not found", { status: 404 });
 
   // return {token};
-  return token;
+  return response.json();
 }
 
 export default function Symbol({ loaderData }: Route.ComponentProps) {
   // const { token } = loaderData;
 
   const TIME_SERIES = ["1m", "5m", "30m", "1h", "4h", "1w"];
+  const chain = getChain(loaderData.chainId);
+  const symbol = chain.nativeCurrency.symbol;
+  const [timeSeries, setTimeSeries] = useState("1h");
+  const candlesFetcher = useFetcher<{ interval: string; candles: Candle[] }>();
+
+  useEffect(() => {
+    candlesFetcher.load(`/api/candles/${loaderData.contractAddress}?interval=${timeSeries}`);
+  }, [loaderData.contractAddress, timeSeries]);
 
-  const ITEMS_PER_PAGE = 10;
   const [currentPage, setCurrentPage] = useState(1);
+  const [tradeSide, setTradeSide] = useState("all");
+  const [tradeWallet, setTradeWallet] = useState("");
+  const [tradeFrom, setTradeFrom] = useState("");
+  const [tradeTo, setTradeTo] = useState("");
+  const tradesFetcher = useFetcher<TradesPage>();
+  const wallet = tradeWallet.trim();
+  // a half-typed address filters nothing rather than emptying the table
+  const walletFilter = isAddress(wallet) ? wallet : "";
 
-  const invoices = Array.from({ length: 20 }, () => ({
-    user: generateAddress().substring(0, 10) + "...",
-    type: Math.random() > 0.5 ? "Buy" : "Sell",
-    price: parseFloat((Math.random() * 0.0001 + 0.000001).toFixed(8)),
-    volume: parseFloat((Math.random() * 0.00001 + 0.000001).toFixed(8)),
-    edu: parseFloat((Math.random() * 0.00001 + 0.000001).toFixed(8)),
-    date: new Date(Date.now() - Math.floor(Math.random() * 1000 * 60 * 60 * 24 * 30)) // random within 30 days
-      .toISOString()
-      .split("T")[0]
-      .replace(/-/g, " - "),
-    tx: `0x${Math.random().toString(16).substring(2, 10)}...`,
-  }));
-
-  const totalPages = Math.ceil(invoices.length / ITEMS_PER_PAGE);
-  const paginatedInvoices = invoices.slice(
-    (currentPage - 1) * ITEMS_PER_PAGE,
-    currentPage * ITEMS_PER_PAGE
-  );
+  useEffect(() => {
+    const query = new URLSearchParams({ page: String(currentPage) });
+    if (tradeSide !== "all") query.set("side", tradeSide);
+    if (walletFilter) query.set("wallet", walletFilter);
+    if (tradeFrom) query.set("from", dayBound(tradeFrom));
+    if (tradeTo) query.set("to", dayBound(tradeTo, true));
+
+    tradesFetcher.load(`/api/trades/${loaderData.contractAddress}?${query}`);
+  }, [loaderData.contractAddress, currentPage, tradeSide, walletFilter, tradeFrom, tradeTo]);
+
+  /** wraps a filter setter so every change starts over from the first page */
+  const onFilter = (set: (value: string) => void) => (value: string) => {
+    set(value);
+    setCurrentPage(1);
+  };
+
+  const trades = tradesFetcher.data?.items ?? [];
+  const totalPages = tradesFetcher.data?.totalPages ?? 1;
 
   return (
     <div className="grid grid-cols-1 lg:grid-cols-12 gap-5 mt-12 px-4 sm:px-6 lg:px-10 min-h-screen">
       <div className="col-span-full lg:col-span-8">
-        <NavLink to="/" className="flex flex-row items-center text-sm gap-x-2 underline mb-4">
-          <ChevronLeft className="size-4" /> Back
-        </NavLink>
+        <div className="flex flex-row justify-between items-center mb-4">
+          <NavLink to="/" className="flex flex-row items-center text-sm gap-x-2 underline">
+            <ChevronLeft className="size-4" /> Back
+          </NavLink>
+          <WatchlistStar contractAddress={loaderData.contractAddress} />
+        </div>
         <div className="flex flex-col gap-4 sm:flex-row sm:justify-between sm:items-center">
-          <div className="grid grid-cols-2 sm:grid-cols-4 gap-x-4 gap-y-2 text-xs">
-            <p>Market Cap: $22,833</p>
-            <p>Price: 0.0000000337 EDU</p>
-            <p>Liquidity: 123456789 EDU</p>
-            <p>Remaining: 695,799,225.84 {loaderData.ticker}</p>
-          </div>
+          <TokenStats
+            bondingCurveAddress={loaderData.bondingCurveAddress}
+            contractAddress={loaderData.contractAddress}
+            ticker={loaderData.ticker}
+            chainId={chain.id}
+          />
           <div className="flex flex-wrap gap-2 justify-center sm:justify-end">
-            <ToggleGroup type="single">
+            <ToggleGroup
+              type="single"
+              value={timeSeries}
+              onValueChange={(val) => val && setTimeSeries(val)}
+            >
               {TIME_SERIES.map((val, idx) => (
                 <ToggleGroupItem key={idx} value={val}>
                   {val}
@@ -117,55 +167,90 @@ export default function Symbol({ loaderData }: Route.ComponentProps) {
 
       <div className="col-span-full lg:col-span-8 row-auto lg:row-start-2 w-full">
         <div className="p-5 border border-white/50 rounded-lg">
-          <ChartFund
-            data={[
-              { open: 10, high: 10.63, low: 9.49, close: 9.55, time: 1642427876 },
-              { open: 9.55, high: 10.3, low: 9.42, close: 9.94, time: 1642514276 },
-              { open: 9.94, high: 10.17, low: 9.92, close: 9.78, time: 1642600676 },
-              { open: 9.78, high: 10.59, low: 9.18, close: 9.51, time: 1642687076 },
-              { open: 9.51, high: 10.46, low: 9.1, close: 10.17, time: 1642773476 },
-              { open: 10.17, high: 10.96, low: 10.16, close: 10.47, time: 1642859876 },
-              { open: 10.47, high: 11.39, low: 10.4, close: 10.81, time: 1642946276 },
-              { open: 10.81, high: 11.6, low: 10.3, close: 10.75, time: 1643032676 },
-              { open: 10.75, high: 11.6, low: 10.49, close: 10.93, time: 1643119076 },
-              { open: 10.93, high: 11.53, low: 10.76, close: 10.96, time: 1643205476 },
-            ]}
-          />
+          <ChartFund data={candlesFetcher.data?.candles ?? NO_CANDLES} />
         </div>
       </div>
 
       <div className="col-span-full lg:col-span-8 row-start-4 lg:row-start-3 w-full">
+        <div className="flex flex-wrap justify-end items-center gap-2 mb-2">
+          <Input
+            className="w-full sm:w-64"
+            placeholder="Wallet 0x..."
+            value={tradeWallet}
+            aria-invalid={wallet !== "" && !walletFilter}
+            onChange={(e) => onFilter(setTradeWallet)(e.target.value)}
+          />
+          <Input
+            className="w-auto"
+            type="date"
+            aria-label="From"
+            value={tradeFrom}
+            max={tradeTo || undefined}
+            onChange={(e) => onFilter(setTradeFrom)(e.target.value)}
+          />
+          <Input
+            className="w-auto"
+            type="date"
+            aria-label="To"
+            value={tradeTo}
+            min={tradeFrom || undefined}
+            onChange={(e) => onFilter(setTradeTo)(e.target.value)}
+          />
+          <ToggleGroup
+            type="single"
+            value={tradeSide}
+            onValueChange={(val) => val && onFilter(setTradeSide)(val)}
+          >
+            {TRADE_SIDES.map((val) => (
+              <ToggleGroupItem key={val} value={val} className="capitalize">
+                {val}
+              </ToggleGroupItem>
+            ))}
+          </ToggleGroup>
+        </div>
         <Table className="overflow-y-auto relative">
-          <TableCaption>A list of your recent transactions.</TableCaption>
+          <TableCaption>
+            {trades.length > 0
+              ? "Recent trades on the bonding curve."
+              : walletFilter || tradeFrom || tradeTo || tradeSide !== "all"
+                ? "No trades match these filters."
+                : "No trades yet."}
+          </TableCaption>
           <TableHeader className="sticky top-0 bg-background">
             <TableRow>
               <TableHead>User</TableHead>
               <TableHead>Type</TableHead>
-              <TableHead>Price (EDU)</TableHead>
+              <TableHead>Price ({symbol})</TableHead>
               <TableHead>{loaderData.ticker}</TableHead>
-              <TableHead>EDU</TableHead>
+              <TableHead>{symbol}</TableHead>
               <TableHead>Date</TableHead>
               <TableHead>Tx Hash</TableHead>
             </TableRow>
           </TableHeader>
           <TableBody>
-            {paginatedInvoices.map((invoice, id) => (
-              <TableRow key={id} className="odd:bg-transparent even:bg-white/10">
-                <TableCell className="font-medium">{invoice.user}</TableCell>
-                <TableCell>{invoice.type}</TableCell>
-                <TableCell>{invoice.price}</TableCell>
-                <TableCell>{invoice.volume}</TableCell>
-                <TableCell>{invoice.edu}</TableCell>
-                <TableCell>{invoice.date}</TableCell>
+            {trades.map((trade) => (
+              <TableRow key={trade._id} className="odd:bg-transparent even:bg-white/10">
+                <TableCell className="font-medium">
+                  <NavLink to={`/profile/${trade.trader}`} className="hover:underline">
+                    {addressTrimer(trade.trader)}
+                  </NavLink>
+                </TableCell>
+                <TableCell className="capitalize">{trade.type}</TableCell>
+                <TableCell>{formatPrice(trade.price)}</TableCell>
+                <TableCell>
+                  {formatAmount(BigInt(trade.tokenAmount), { maximumFractionDigits: 2 })}
+                </TableCell>
+                <TableCell>{formatAmount(BigInt(trade.ethAmount))}</TableCell>
+                <TableCell>{new Date(trade.timestamp).toLocaleString()}</TableCell>
                 <TableCell>
                   <a
-                    href={`https://opencampus-codex.blockscout.com/tx/${invoice.tx}`}
+                    href={explorerTxUrl(chain.id, trade.txHash)}
                     target="_blank"
                     rel="noopener noreferrer"
                     className="truncate block text-blue-500 hover:underline"
-                    title={invoice.tx}
+                    title={trade.txHash}
                   >
-                    {invoice.tx}
+                    {addressTrimer(trade.txHash)}
                   </a>
                 </TableCell>
               </TableRow>
@@ -187,30 +272,42 @@ export default function Symbol({ loaderData }: Route.ComponentProps) {
             contractAddress={loaderData.contractAddress}
             imageUrl={loaderData.imageUrl}
             bondingCurveAddress={loaderData.bondingCurveAddress}
+            chainId={chain.id}
           />
           <div className="flex flex-col gap-4">
-            <ForwardLink className="justify-end" to="/">
-              Visit resource
-            </ForwardLink>
-            <iframe
-              className={cn("rounded-lg h-full w-full overflow-hidden", "aspect-video")}
-              src={String(loaderData.postUrl)}
-              frameBorder="0"
-              allow="accelerometer; clipboard-write; encrypted-media; gyroscope; picture-in-picture; web-share"
-              referrerPolicy="strict-origin-when-cross-origin"
-              scrolling="no"
-            />
+            <div className="flex flex-row justify-between items-center">
+              <ReportToken contractAddress={loaderData.contractAddress} />
+              <ForwardLink className="justify-end" to="/">
+                Visit resource
+              </ForwardLink>
+            </div>
+            {loaderData.embedHidden ? (
+              <p className="text-gray-400">This embed was hidden by moderators.</p>
+            ) : (
+              <iframe
+                className={cn("rounded-lg h-full w-full overflow-hidden", "aspect-video")}
+                src={String(loaderData.postUrl)}
+                frameBorder="0"
+                allow="accelerometer; clipboard-write; encrypted-media; gyroscope; picture-in-picture; web-share"
+                referrerPolicy="strict-origin-when-cross-origin"
+                scrolling="no"
+              />
+            )}
             <div className="h-[1px] bg-white/50 w-full self-end my-8" />
             <div className="flex flex-row gap-2 items-center">
               <p>Name:</p>
               <Badge variant="secondary">{loaderData.name}</Badge>
               <Copy className="size-5 cursor-pointer" />
             </div>
+            <div className="flex flex-row gap-2 items-center">
+              <p>Network:</p>
+              <Badge variant="secondary">{chain.name}</Badge>
+            </div>
             <div className="flex flex-row gap-2 items-center">
               <p>Contract Address:</p>
 
               <a
-                href={`https://edu-chain-testnet.blockscout.com/address/${loaderData.contractAddress}`}
+                href={explorerAddressUrl(chain.id, loaderData.contractAddress)}
                 target="_blank"
                 rel="noopener noreferrer"
               >
@@ -237,7 +334,11 @@ export default function Symbol({ loaderData }: Route.ComponentProps) {
             )}
             <div className="h-[1px] bg-white/50 w-full self-start my-8" />
             <p>Description:</p>
-            <p>{loaderData.description}</p>
+            <p className={cn(loaderData.descriptionHidden && "text-gray-400")}>
+              {loaderData.descriptionHidden
+                ? "This description was hidden by moderators."
+                : loaderData.description}
+            </p>
           </div>
         </div>
       </div>
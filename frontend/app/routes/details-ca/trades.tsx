@@ -0,0 +1,11 @@
+import type { Route } from "./+types/trades";
+
+export async function loader({ params, request }: Route.LoaderArgs) {
+  const { searchParams } = new URL(request.url);
+
+  const trades = await fetch(
+    `${process.env.VITE_BE_URL}/api/market/${params.ca}/trades?${searchParams}`
+  ).then((res) => res.json());
+
+  return trades;
+}
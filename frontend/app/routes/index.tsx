@@ -1,14 +1,32 @@
-import { useEffect, useState, type ReactNode } from "react";
-import { ButtonMagnet, ForwardLink } from "@fund/button";
+import { useEffect, useRef, useState, type ReactNode } from "react";
+import { ForwardLink } from "@fund/button";
 import { DynamicHeader } from "@fund/dynamic-header";
 import { Button } from "@shadcn/button";
 import { Input } from "@shadcn/input";
 import Masonry from "react-masonry-css";
-import { NavLink, useFetcher, useLoaderData } from "react-router";
+import { NavLink, useFetcher, useLoaderData, useNavigate, useSearchParams } from "react-router";
+import { toast } from "sonner";
 import { cn } from "~/utils/cn";
 import { X } from "lucide-react";
+import { TabsOutline, TabsOutlineList, TabsOutlineTrigger } from "@fund/tab/tab-outline";
+import { WatchlistStar } from "@fund/watchlist/star";
+import { fetchTokenList } from "@services/tokens";
+import { formatCompact, formatPrice } from "~/utils/format";
+import { Badge } from "@shadcn/badge";
+import { getChain } from "@shared/chains";
 import type { Route } from "./+types";
 
+const SORT_TABS = [
+  { value: "trending", label: "Trending" },
+  { value: "newest", label: "Newest" },
+  { value: "marketCap", label: "Market Cap" },
+  { value: "graduation", label: "Near Graduation" },
+  { value: "watchlist", label: "Watchlist" },
+];
+
+// starred campaigns show live prices, refreshed while the tab is open
+const WATCHLIST_REFRESH = 15_000;
+
 const breakpointColumnsObj = {
   default: 3,
   1100: 2,
@@ -42,38 +60,59 @@ export function meta() {
 }
 
 export async function loader({ request }: Route.LoaderArgs) {
-  const { searchParams } = new URL(request.url);
-  const searchTerm = searchParams.get("q");
-  const page = Number(searchParams.get("page")) + 1 || 1;
-
-  const apiUrl = searchTerm
-    ? `${process.env.VITE_BE_URL}/api/tokens?q=${encodeURIComponent(searchTerm)}&page=${page}`
-    : `${process.env.VITE_BE_URL}/api/tokens`;
-
-  const response = await fetch(apiUrl);
-  const data = await response.json();
+  const data = await fetchTokenList(request);
   return { data };
 }
 
+type Suggestion = {
+  _id: string;
+  name: string;
+  ticker: string;
+  contractAddress: string;
+  imageUrl?: string;
+};
+
+const SUGGEST_DELAY = 250;
+
+type TokenPage = {
+  items: Record<string, ReactNode>[];
+  nextCursor: string | null;
+  /** set when the search was a post link the backend recognized */
+  resolvedUrl?: string;
+};
+
 export default function Home() {
-  const fetcher = useFetcher<Record<string, ReactNode>>();
-  const loaderData = useLoaderData();
+  const fetcher = useFetcher<TokenPage>();
+  const suggestFetcher = useFetcher<Suggestion[]>();
+  const [showSuggestions, setShowSuggestions] = useState(false);
+  const loaderData = useLoaderData<typeof loader>();
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
 
-  const [data, setData] = useState<{
-    tokens: Record<string, ReactNode>[];
-    shouldLoadMore: boolean;
-  }>({
-    tokens: loaderData.data.items,
-    shouldLoadMore: loaderData.data.shouldLoadMore,
-  });
+  const [data, setData] = useState<TokenPage>(loaderData.data);
 
   const [isLoading, setIsLoading] = useState(true);
-  const [searchTerm, setSearchTerm] = useState<string>("");
-  const [page, setPage] = useState(1);
+  const [searchTerm, setSearchTerm] = useState<string>(searchParams.get("q") || "");
+  // the submitted search; pages keep using it even while the input is being edited
+  const [query, setQuery] = useState(searchTerm);
+  const [sort, setSort] = useState(searchParams.get("sort") || "newest");
+  const appendResults = useRef(false);
+  const sentinelRef = useRef<HTMLDivElement>(null);
+
+  const loadTokens = (options: { q?: string; sort?: string; cursor?: string }) => {
+    const params = new URLSearchParams({ sort: options.sort ?? sort });
+    const q = options.q ?? query;
+    if (q) params.set("q", q);
+    if (options.cursor) params.set("cursor", options.cursor);
 
-  const handleFetch = async () => {
-    setIsLoading(true);
-    fetcher.load(`/api/list?q=${encodeURIComponent(searchTerm)}&page=${searchTerm ? 1 : page}`);
+    appendResults.current = !!options.cursor;
+    if (!options.cursor) setIsLoading(true);
+    fetcher.load(`/api/list?${params}`);
+  };
+
+  const handleSortChange = (value: string) => {
+    setSort(value);
+    loadTokens({ sort: value });
   };
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -81,8 +120,12 @@ export default function Home() {
   };
 
   const handleSearch = async () => {
-    setPage(1);
-    await handleFetch();
+    // searches rank by relevance until another tab is picked
+    const nextSort = searchTerm ? "relevance" : sort === "relevance" ? "newest" : sort;
+    setShowSuggestions(false);
+    setQuery(searchTerm);
+    setSort(nextSort);
+    loadTokens({ q: searchTerm, sort: nextSort });
   };
 
   const handleKeyPress = async (e: React.KeyboardEvent<HTMLInputElement>) => {
@@ -92,36 +135,70 @@ export default function Home() {
   };
 
   const handleClearSearch = () => {
-    setPage(1);
+    const nextSort = sort === "relevance" ? "newest" : sort;
     setSearchTerm("");
-    setIsLoading(true);
-    fetcher.load("/api/list");
+    setQuery("");
+    setSort(nextSort);
+    loadTokens({ q: "", sort: nextSort });
   };
 
-  const handleOnNextPage = async () => {
-    await handleFetch();
-  };
+  useEffect(() => {
+    if (!searchTerm.trim()) return;
+
+    const timeout = setTimeout(() => {
+      suggestFetcher.load(`/api/suggest?q=${encodeURIComponent(searchTerm)}`);
+    }, SUGGEST_DELAY);
+
+    return () => clearTimeout(timeout);
+  }, [searchTerm]);
 
   useEffect(() => {
     if (fetcher.state == "idle" && fetcher.data) {
       setIsLoading(false);
 
-      if (searchTerm) {
-        setData({
-          tokens: fetcher.data!.items as Record<string, ReactNode>[],
-          shouldLoadMore: fetcher.data!.shouldLoadMore as boolean,
-        });
-      } else {
-        setPage(page + 1);
-        setData((old) => {
-          return {
-            tokens: [...old.tokens, ...(fetcher.data!.items as Record<string, ReactNode>[])],
-            shouldLoadMore: fetcher.data!.shouldLoadMore as boolean,
-          };
-        });
+      const { items, nextCursor, resolvedUrl } = fetcher.data;
+
+      if (resolvedUrl && !appendResults.current) {
+        if (items.length === 1) {
+          navigate(`/${items[0].contractAddress}`);
+          return;
+        }
+        if (items.length === 0) toast("No campaign found for that link");
       }
+
+      setData((old) => ({
+        items: appendResults.current ? [...old.items, ...items] : items,
+        nextCursor,
+      }));
     }
-  }, [fetcher]);
+  }, [fetcher.state, fetcher.data]);
+
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !data.nextCursor) return;
+
+    const observer = new IntersectionObserver(
+      ([entry]) => {
+        if (entry.isIntersecting && fetcher.state === "idle") {
+          loadTokens({ cursor: data.nextCursor! });
+        }
+      },
+      { rootMargin: "400px" }
+    );
+    observer.observe(sentinel);
+
+    return () => observer.disconnect();
+  }, [data.nextCursor, fetcher.state, isLoading]);
+
+  useEffect(() => {
+    if (sort !== "watchlist") return;
+
+    const interval = setInterval(() => {
+      if (fetcher.state === "idle") fetcher.load(`/api/list?sort=watchlist`);
+    }, WATCHLIST_REFRESH);
+
+    return () => clearInterval(interval);
+  }, [sort, fetcher.state]);
 
   useEffect(() => {
     const timeo = setTimeout(() => {
@@ -158,7 +235,30 @@ export default function Home() {
               value={searchTerm}
               onChange={handleInputChange}
               onKeyUp={handleKeyPress}
+              onFocus={() => setShowSuggestions(true)}
+              onBlur={() => setShowSuggestions(false)}
             />
+            {showSuggestions && searchTerm && !!suggestFetcher.data?.length && (
+              <div className="absolute z-20 top-full mt-2 w-full rounded-lg border border-white/50 bg-background py-2">
+                {suggestFetcher.data.map((suggestion) => (
+                  <NavLink
+                    key={suggestion._id}
+                    to={`/${suggestion.contractAddress}`}
+                    // keep the input focused until the navigation fires
+                    onMouseDown={(e) => e.preventDefault()}
+                    className="flex flex-row items-center gap-3 px-4 py-2 hover:bg-white/10"
+                  >
+                    <img
+                      src={suggestion.imageUrl || "/logo-color.png"}
+                      alt={suggestion.name}
+                      className="size-6 rounded-full object-cover"
+                    />
+                    <span className="font-medium">{suggestion.name}</span>
+                    <span className="text-sm text-gray-400">${suggestion.ticker}</span>
+                  </NavLink>
+                ))}
+              </div>
+            )}
             {searchTerm && (
               <button
                 onClick={handleClearSearch}
@@ -174,37 +274,72 @@ export default function Home() {
           </Button>
         </div>
 
+        <TabsOutline value={sort} onValueChange={handleSortChange}>
+          <TabsOutlineList className="w-full">
+            {SORT_TABS.map((tab) => (
+              <TabsOutlineTrigger key={tab.value} value={tab.value}>
+                {tab.label}
+              </TabsOutlineTrigger>
+            ))}
+          </TabsOutlineList>
+        </TabsOutline>
+
+        {sort === "watchlist" && data.items.length === 0 && (
+          <p className="italic text-center">
+            Sign in and star campaigns to keep an eye on them here.
+          </p>
+        )}
+
         <Masonry
           breakpointCols={breakpointColumnsObj}
           className="my-masonry-grid"
           columnClassName="my-masonry-grid_column flex flex-col gap-y-5"
         >
-          {data.tokens.map((token, i) => {
+          {data.items.map((token) => {
             const iframeSrc = String(token.postUrl!);
+            const chain = getChain(Number(token.chainId));
             return (
               <NavLink
-                key={i}
+                key={String(token._id)}
                 className="flex flex-col w-full rounded-lg border border-white/50 py-3 px-5 gap-y-3"
                 to={String(token.contractAddress)}
               >
                 <div className="flex flex-col gap-4">
-                  <p className="font-bold text-xl">
-                    {token.name} ({token.ticker || token.symbol || "N/A"})
+                  <div className="flex flex-row justify-between gap-2">
+                    <p className="font-bold text-xl">
+                      {token.name} ({token.ticker || token.symbol || "N/A"})
+                    </p>
+                    <div className="flex flex-row items-start gap-2">
+                      <Badge variant="outline">{chain.name}</Badge>
+                      <WatchlistStar contractAddress={String(token.contractAddress)} />
+                    </div>
+                  </div>
+                  {sort === "watchlist" && (
+                    <p className="text-sm text-gray-400">
+                      {formatPrice(Number(token.price))} {chain.nativeCurrency.symbol} · MC{" "}
+                      {formatCompact(Number(token.marketCap))} {chain.nativeCurrency.symbol}
+                    </p>
+                  )}
+                  <p>
+                    {token.descriptionHidden
+                      ? "Description hidden by moderators"
+                      : token.description || "No description available"}
                   </p>
-                  <p>{token.description || "No description available"}</p>
                 </div>
-                <iframe
-                  className={cn(
-                    "rounded-lg h-full w-full overflow-hidden",
-                    iframeSrc.includes("youtube") && "aspect-video",
-                    iframeSrc.includes("linkedin") && "aspect-square"
-                  )}
-                  src={iframeSrc}
-                  frameBorder="0"
-                  allow="accelerometer; clipboard-write; encrypted-media; gyroscope; picture-in-picture; web-share"
-                  referrerPolicy="strict-origin-when-cross-origin"
-                  scrolling="no"
-                />
+                {!token.embedHidden && (
+                  <iframe
+                    className={cn(
+                      "rounded-lg h-full w-full overflow-hidden",
+                      iframeSrc.includes("youtube") && "aspect-video",
+                      iframeSrc.includes("linkedin") && "aspect-square"
+                    )}
+                    src={iframeSrc}
+                    frameBorder="0"
+                    allow="accelerometer; clipboard-write; encrypted-media; gyroscope; picture-in-picture; web-share"
+                    referrerPolicy="strict-origin-when-cross-origin"
+                    scrolling="no"
+                  />
+                )}
                 <p className="flex text-inherit justify-end">
                   <ForwardLink className="justify-end" to={String(token.contractAddress)}>
                     More
@@ -214,13 +349,11 @@ export default function Home() {
             );
           })}
         </Masonry>
-        {data.shouldLoadMore && (
-          <div className="flex w-full justify-center mt-12 mb-36">
-            <ButtonMagnet size={"lg"} onClick={handleOnNextPage}>
-              Load More
-            </ButtonMagnet>
-          </div>
-        )}
+        <div ref={sentinelRef} className="flex w-full justify-center mt-12 mb-36">
+          {data.nextCursor && (
+            <div className="w-8 h-8 border-4 border-t-transparent border-white rounded-full animate-spin" />
+          )}
+        </div>
       </div>
     </>
   );
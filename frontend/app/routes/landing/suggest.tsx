@@ -0,0 +1,11 @@
+import type { Route } from "./+types/suggest";
+
+export async function loader({ request }: Route.LoaderArgs) {
+  const { searchParams } = new URL(request.url);
+
+  const suggestions = await fetch(
+    `${process.env.VITE_BE_URL}/api/tokens/suggest?q=${encodeURIComponent(searchParams.get("q") || "")}`
+  ).then((res) => res.json());
+
+  return suggestions;
+}
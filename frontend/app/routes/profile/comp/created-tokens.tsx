@@ -0,0 +1,50 @@
+import { NavLink } from "react-router";
+import { Badge } from "@shadcn/badge";
+import { formatCompact } from "~/utils/format";
+import { getChain } from "@shared/chains";
+
+export type CreatedToken = {
+  _id: string;
+  name: string;
+  ticker: string;
+  chainId: number;
+  contractAddress: string;
+  imageUrl?: string;
+  marketCap: number;
+  hasGraduated: boolean;
+};
+
+export function CreatedTokens({ tokens }: { tokens: CreatedToken[] }) {
+  if (tokens.length === 0) return <p className="italic">No coins created yet</p>;
+
+  return (
+    <div className="flex flex-col gap-3">
+      {tokens.map((token) => (
+        <NavLink
+          key={token._id}
+          to={`/${token.contractAddress}`}
+          className="flex flex-row gap-4 items-center rounded-lg border border-white/50 py-3 px-5 hover:bg-white/10"
+        >
+          <img
+            src={token.imageUrl || "/logo-color.png"}
+            className="aspect-square object-cover rounded-full size-10"
+          />
+          <div className="flex flex-col grow">
+            <p className="font-bold">
+              {token.name} ({token.ticker})
+            </p>
+            <p className="text-sm text-gray-400">
+              Market cap {formatCompact(token.marketCap)}{" "}
+              {getChain(token.chainId).nativeCurrency.symbol} · {getChain(token.chainId).name}
+            </p>
+          </div>
+          {token.hasGraduated ? (
+            <Badge variant="secondary">graduated</Badge>
+          ) : (
+            <Badge variant="outline">bonding</Badge>
+          )}
+        </NavLink>
+      ))}
+    </div>
+  );
+}
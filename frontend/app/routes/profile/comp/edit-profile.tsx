@@ -0,0 +1,183 @@
+import { Drawer, DrawerContent, DrawerHeader, DrawerTitle } from "@shadcn/drawer";
+import { useState, type ChangeEvent } from "react";
+import { Pencil, Plus, X } from "lucide-react";
+import { toast } from "sonner";
+import { ButtonMagnet } from "@fund/button";
+import { useFundWallet } from "@fund/wallet/provider";
+import { authHeaders } from "@services/auth";
+import { toFieldErrors } from "@shared/schemas/common";
+import { MAX_PROFILE_LINKS, profileSchema, type Profile } from "@shared/schemas/user";
+
+type EditProfileProps = {
+  profile: Profile;
+  onSaved: () => void;
+};
+
+const inputClassName =
+  "w-full p-3 border border-input rounded-lg bg-background text-sm sm:text-base";
+
+export function EditProfile({ profile, onSaved }: EditProfileProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [formData, setFormData] = useState<Profile>(profile);
+  const [avatar, setAvatar] = useState<File | null>(null);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [isSaving, setIsSaving] = useState(false);
+  const { address, session, signIn } = useFundWallet();
+
+  const handleChange = (e: ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
+    const { name, value } = e.target;
+    setFormData((prev) => ({ ...prev, [name]: value }));
+  };
+
+  const updateLink = (index: number, field: "label" | "url", value: string) => {
+    setFormData((prev) => ({
+      ...prev,
+      links: prev.links.map((link, i) => (i === index ? { ...link, [field]: value } : link)),
+    }));
+  };
+
+  const saveProfile = async () => {
+    const result = profileSchema.safeParse(formData);
+    if (!result.success) {
+      setErrors(
+        Object.fromEntries(
+          toFieldErrors(result.error).map(({ field, message }) => [field, message])
+        )
+      );
+      return;
+    }
+    setErrors({});
+    setIsSaving(true);
+
+    try {
+      const activeSession = session ?? (await signIn());
+
+      const compiledFD = new FormData();
+      if (avatar) compiledFD.append("avatar", avatar);
+      compiledFD.append("payload", JSON.stringify(result.data));
+
+      const response = await fetch(`${import.meta.env.VITE_BE_URL}/api/users/${address}`, {
+        method: "PUT",
+        headers: authHeaders(activeSession),
+        body: compiledFD,
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || "Failed to save profile");
+      }
+
+      toast("Profile saved");
+      setIsOpen(false);
+      onSaved();
+    } catch (error) {
+      toast(`${error instanceof Error ? error.message : error}`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const fieldError = (field: string) =>
+    errors[field] && <p className="mt-1 text-sm text-red-500">{errors[field]}</p>;
+
+  return (
+    <Drawer open={isOpen} onOpenChange={setIsOpen}>
+      <ButtonMagnet size="sm" onClick={() => setIsOpen(true)}>
+        <div className="flex flex-row gap-2 items-center">
+          <Pencil className="size-4" />
+          Edit profile
+        </div>
+      </ButtonMagnet>
+      <DrawerContent className="pb-10">
+        <div className="mx-auto w-full max-w-sm flex flex-col gap-4 overflow-y-auto">
+          <DrawerHeader>
+            <DrawerTitle className="text-center font-bold">Edit profile</DrawerTitle>
+          </DrawerHeader>
+          <div>
+            <label className="block mb-2">Avatar</label>
+            <input
+              type="file"
+              accept="image/*"
+              onChange={(e) => setAvatar(e.target.files?.[0] ?? null)}
+              className="text-sm"
+            />
+          </div>
+          <div>
+            <label className="block mb-2">Display name</label>
+            <input
+              name="displayName"
+              value={formData.displayName}
+              onChange={handleChange}
+              className={inputClassName}
+            />
+            {fieldError("displayName")}
+          </div>
+          <div>
+            <label className="block mb-2">Bio</label>
+            <textarea
+              name="bio"
+              value={formData.bio}
+              onChange={handleChange}
+              className={`${inputClassName} min-h-[100px]`}
+            />
+            {fieldError("bio")}
+          </div>
+          <div className="flex flex-col gap-2">
+            <label className="block">Links</label>
+            {formData.links.map((link, index) => (
+              <div key={index} className="flex flex-col gap-1">
+                <div className="flex flex-row gap-2 items-center">
+                  <input
+                    placeholder="Label"
+                    value={link.label}
+                    onChange={(e) => updateLink(index, "label", e.target.value)}
+                    className={`${inputClassName} w-1/3`}
+                  />
+                  <input
+                    placeholder="https://"
+                    value={link.url}
+                    onChange={(e) => updateLink(index, "url", e.target.value)}
+                    className={inputClassName}
+                  />
+                  <X
+                    className="size-5 shrink-0 cursor-pointer"
+                    onClick={() =>
+                      setFormData((prev) => ({
+                        ...prev,
+                        links: prev.links.filter((_, i) => i !== index),
+                      }))
+                    }
+                  />
+                </div>
+                {fieldError(`links.${index}.label`)}
+                {fieldError(`links.${index}.url`)}
+              </div>
+            ))}
+            {formData.links.length < MAX_PROFILE_LINKS && (
+              <button
+                type="button"
+                onClick={() =>
+                  setFormData((prev) => ({
+                    ...prev,
+                    links: [...prev.links, { label: "", url: "" }],
+                  }))
+                }
+                className="flex flex-row gap-1 items-center text-sm text-blue-500 cursor-pointer"
+              >
+                <Plus className="size-4" />
+                Add link
+              </button>
+            )}
+          </div>
+          <button
+            onClick={saveProfile}
+            disabled={isSaving}
+            className="w-full py-3 font-medium rounded-lg bg-[#e2ffc7] hover:bg-[#d5f5b9] text-black disabled:opacity-50 cursor-pointer"
+          >
+            {isSaving ? "Saving..." : "Save"}
+          </button>
+        </div>
+      </DrawerContent>
+    </Drawer>
+  );
+}
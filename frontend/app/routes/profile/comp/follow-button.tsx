@@ -0,0 +1,58 @@
+import { useEffect, useState } from "react";
+import { toast } from "sonner";
+import { useFundWallet } from "@fund/wallet/provider";
+import { authHeaders } from "@services/auth";
+
+type FollowButtonProps = {
+  address: string;
+  onChange: () => void;
+};
+
+export function FollowButton({ address, onChange }: FollowButtonProps) {
+  const [isFollowing, setIsFollowing] = useState(false);
+  const [isSending, setIsSending] = useState(false);
+  const { isConnected, session, signIn } = useFundWallet();
+  const followUrl = `${import.meta.env.VITE_BE_URL}/api/users/${address}/follow`;
+
+  useEffect(() => {
+    if (!session) return setIsFollowing(false);
+
+    fetch(followUrl, { headers: authHeaders(session) })
+      .then((response) => (response.ok ? response.json() : { following: false }))
+      .then(({ following }) => setIsFollowing(following))
+      .catch(() => setIsFollowing(false));
+  }, [followUrl, session]);
+
+  const toggleFollow = async () => {
+    if (!isConnected) return toast("Connect your wallet to follow");
+
+    setIsSending(true);
+    try {
+      const activeSession = session ?? (await signIn());
+      const response = await fetch(followUrl, {
+        method: isFollowing ? "DELETE" : "POST",
+        headers: authHeaders(activeSession),
+      });
+
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.message || "Failed to update follow");
+
+      setIsFollowing(data.following);
+      onChange();
+    } catch (error) {
+      toast(`${error instanceof Error ? error.message : error}`);
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <button
+      onClick={toggleFollow}
+      disabled={isSending}
+      className="w-max px-3 py-1 text-sm rounded-md border border-white/50 hover:bg-white/10 disabled:opacity-50 cursor-pointer"
+    >
+      {isFollowing ? "Unfollow" : "Follow"}
+    </button>
+  );
+}
@@ -0,0 +1,59 @@
+import { NavLink } from "react-router";
+import { Pagination } from "~/routes/details-ca/comp/pagination";
+import { addressTrimer } from "~/utils/helper";
+
+export type FollowEntry = {
+  address: string;
+  displayName: string;
+  avatarUrl?: string;
+  followerCount: number;
+  followedAt: string;
+};
+
+export type FollowPage = {
+  items: FollowEntry[];
+  page: number;
+  total: number;
+  totalPages: number;
+};
+
+type FollowListProps = {
+  list: FollowPage;
+  emptyText: string;
+  onPage: (page: number) => void;
+};
+
+export function FollowList({ list, emptyText, onPage }: FollowListProps) {
+  if (list.total === 0) return <p className="italic">{emptyText}</p>;
+
+  return (
+    <div className="flex flex-col gap-3">
+      {list.items.map((entry) => (
+        <NavLink
+          key={entry.address}
+          to={`/profile/${entry.address}`}
+          className="flex flex-row gap-4 items-center rounded-lg border border-white/50 py-3 px-5 hover:bg-white/10"
+        >
+          <img
+            src={entry.avatarUrl || "https://placehold.co/50"}
+            className="aspect-square object-cover rounded-full size-10"
+          />
+          <div className="flex flex-col">
+            <p>{entry.displayName || addressTrimer(entry.address)}</p>
+            <p className="text-sm text-gray-400">
+              {entry.followerCount} follower{entry.followerCount !== 1 && "s"}
+            </p>
+          </div>
+        </NavLink>
+      ))}
+      {list.totalPages > 1 && (
+        <Pagination
+          onBack={() => onPage(Math.max(1, list.page - 1))}
+          onNext={() => onPage(Math.min(list.totalPages, list.page + 1))}
+          currentPage={list.page}
+          totalPages={list.totalPages}
+        />
+      )}
+    </div>
+  );
+}
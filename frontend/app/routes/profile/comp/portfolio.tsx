@@ -0,0 +1,128 @@
+import { useEffect } from "react";
+import { NavLink, useFetcher } from "react-router";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@shadcn/table";
+import { formatAmount, formatPrice } from "~/utils/format";
+import { cn } from "~/utils/cn";
+import { getChain } from "@shared/chains";
+
+type Position = {
+  token: {
+    _id: string;
+    name: string;
+    ticker: string;
+    imageUrl?: string;
+    chainId: number;
+    contractAddress: string;
+  };
+  /** raw token amount, 18 decimals */
+  balance: string;
+  price: number;
+  value: number;
+  averageEntryPrice: number;
+  costBasis: number;
+  realizedPnl: number;
+  unrealizedPnl: number;
+  donated: number;
+};
+
+/** summed per chain, each one is in its own native coin */
+type Totals = {
+  chainId: number;
+  value: number;
+  realizedPnl: number;
+  unrealizedPnl: number;
+  donated: number;
+};
+
+type Portfolio = {
+  positions: Position[];
+  totals: Totals[];
+};
+
+const native = (value: number, chainId: number) =>
+  `${formatAmount(value)} ${getChain(chainId).nativeCurrency.symbol}`;
+
+function Pnl({ value, chainId }: { value: number; chainId: number }) {
+  return (
+    <span className={cn(value > 0 && "text-green-400", value < 0 && "text-red-400")}>
+      {value > 0 && "+"}
+      {native(value, chainId)}
+    </span>
+  );
+}
+
+export function PortfolioTab({ address }: { address: string }) {
+  const fetcher = useFetcher<Portfolio>();
+
+  useEffect(() => {
+    fetcher.load(`/api/portfolio/${address}`);
+  }, [address]);
+
+  if (!fetcher.data) {
+    return fetcher.state === "idle" ? null : <p className="italic">Loading portfolio...</p>;
+  }
+
+  const { positions, totals } = fetcher.data;
+  if (!positions?.length) return <p className="italic">No campaign tokens held yet</p>;
+
+  return (
+    <div className="flex flex-col gap-6">
+      {totals.map((total) => (
+        <div key={total.chainId} className="flex flex-col gap-2">
+          {totals.length > 1 && <p className="text-gray-400">{getChain(total.chainId).name}</p>}
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-4 text-sm">
+            <div className="flex flex-col">
+              <span className="text-gray-400">Value</span>
+              {native(total.value, total.chainId)}
+            </div>
+            <div className="flex flex-col">
+              <span className="text-gray-400">Unrealized PnL</span>
+              <Pnl value={total.unrealizedPnl} chainId={total.chainId} />
+            </div>
+            <div className="flex flex-col">
+              <span className="text-gray-400">Realized PnL</span>
+              <Pnl value={total.realizedPnl} chainId={total.chainId} />
+            </div>
+            <div className="flex flex-col">
+              <span className="text-gray-400">Donated</span>
+              {native(total.donated, total.chainId)}
+            </div>
+          </div>
+        </div>
+      ))}
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Token</TableHead>
+            <TableHead>Balance</TableHead>
+            <TableHead>Avg. entry</TableHead>
+            <TableHead>Value</TableHead>
+            <TableHead>PnL</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {positions.map((position) => (
+            <TableRow key={position.token._id} className="odd:bg-transparent even:bg-white/10">
+              <TableCell>
+                <NavLink to={`/${position.token.contractAddress}`} className="hover:underline">
+                  {position.token.name} ({position.token.ticker})
+                </NavLink>
+              </TableCell>
+              <TableCell>
+                {formatAmount(BigInt(position.balance), { maximumFractionDigits: 2 })}
+              </TableCell>
+              <TableCell>{formatPrice(position.averageEntryPrice)}</TableCell>
+              <TableCell>{native(position.value, position.token.chainId)}</TableCell>
+              <TableCell className="flex flex-col">
+                <Pnl value={position.unrealizedPnl} chainId={position.token.chainId} />
+                <span className="text-xs text-gray-400">
+                  realized <Pnl value={position.realizedPnl} chainId={position.token.chainId} />
+                </span>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
-import { ButtonMagnet, ForwardLink } from "@fund/button";
-import { DynamicHeader } from "@fund/dynamic-header";
+import type { Route } from "./+types";
+import { ForwardLink } from "@fund/button";
 import {
   TabsOutline,
   TabsOutlineContent,
@@ -8,7 +8,17 @@ import {
 } from "@fund/tab/tab-outline";
 import { useFundWallet } from "@fund/wallet/provider";
 import { Badge } from "@shadcn/badge";
-import { Pencil } from "lucide-react";
+import { useRevalidator, useSearchParams } from "react-router";
+import { ClientOnly } from "remix-utils/client-only";
+import { useAccount } from "wagmi";
+import { explorerAddressUrl, getChain } from "@shared/chains";
+import type { ProfileLink } from "@shared/schemas/user";
+import { addressTrimer } from "~/utils/helper";
+import { CreatedTokens, type CreatedToken } from "./comp/created-tokens";
+import { EditProfile } from "./comp/edit-profile";
+import { FollowButton } from "./comp/follow-button";
+import { FollowList, type FollowPage } from "./comp/follow-list";
+import { PortfolioTab } from "./comp/portfolio";
 
 export function meta() {
   const title = "User Profile | GoFundingDotFun";
@@ -37,45 +47,122 @@ export function meta() {
   ];
 }
 
-export default function ProfilePage() {
-  const { address } = useFundWallet();
+export type UserProfile = {
+  address: string;
+  displayName?: string;
+  bio?: string;
+  avatarUrl?: string;
+  links?: ProfileLink[];
+  followerCount: number;
+  followingCount: number;
+};
+
+const TABS = ["coins-created", "portfolio", "followers", "following"];
+
+const EMPTY_PAGE: FollowPage = { items: [], page: 1, total: 0, totalPages: 1 };
+
+export async function loader({ params, request }: Route.LoaderArgs) {
+  const { searchParams } = new URL(request.url);
+  const userUrl = `${process.env.VITE_BE_URL}/api/users/${params.address}`;
+  const pageOf = (name: string) => new URLSearchParams({ page: searchParams.get(name) || "1" });
+
+  const [response, tokens, followers, following] = await Promise.all([
+    fetch(userUrl),
+    fetch(`${userUrl}/tokens`),
+    fetch(`${userUrl}/followers?${pageOf("followers")}`),
+    fetch(`${userUrl}/following?${pageOf("following")}`),
+  ]);
+  if (!response.ok) throw new Response("Profile not found", { status: 404 });
+
+  return {
+    profile: (await response.json()) as UserProfile,
+    createdTokens: tokens.ok ? ((await tokens.json()) as CreatedToken[]) : [],
+    followers: followers.ok ? ((await followers.json()) as FollowPage) : EMPTY_PAGE,
+    following: following.ok ? ((await following.json()) as FollowPage) : EMPTY_PAGE,
+  };
+}
+
+export default function ProfilePage({ loaderData }: Route.ComponentProps) {
+  const { profile, createdTokens, followers, following } = loaderData;
+  const [searchParams, setSearchParams] = useSearchParams();
+  const tab = TABS.includes(searchParams.get("tab") ?? "") ? searchParams.get("tab")! : TABS[0];
+  const goTo = (params: Record<string, string>) =>
+    setSearchParams(
+      { ...Object.fromEntries(searchParams), ...params },
+      { preventScrollReset: true }
+    );
+  const { address: connectedAddress } = useFundWallet();
+  const { chainId } = useAccount();
+  // wallets share one address across networks, link to the one the visitor is on
+  const explorerChain = getChain(chainId);
+  const revalidator = useRevalidator();
+  const address = profile.address;
+  const isOwnProfile = connectedAddress.toLowerCase() === address.toLowerCase();
 
   return (
     <>
       <div className="container mt-8 flex flex-col gap-4">
         <div className="flex flex-row gap-4 justify-center">
           <img
-            src="https://placehold.co/50"
-            className="aspect-square object-cover rounded-full h-max"
+            src={profile.avatarUrl || "https://placehold.co/50"}
+            className="aspect-square object-cover rounded-full h-max size-12"
           />
           <div className="flex flex-col gap-1">
-            <p>username</p>
-            <p>0 followers</p>
-            <p>bio</p>
-            <ButtonMagnet size="sm">
-              <div className="flex flex-row gap-2 items-center">
-                <Pencil className="size-4" />
-                Edit profile
+            <p>{profile.displayName || addressTrimer(address)}</p>
+            <p>
+              {profile.followerCount} follower{profile.followerCount !== 1 && "s"} ·{" "}
+              {profile.followingCount} following
+            </p>
+            {profile.bio && <p className="whitespace-pre-line">{profile.bio}</p>}
+            {profile.links && profile.links.length > 0 && (
+              <div className="flex flex-row flex-wrap gap-3">
+                {profile.links.map((link) => (
+                  <a
+                    key={link.url}
+                    href={link.url}
+                    target="_blank"
+                    rel="noopener noreferrer nofollow"
+                    className="text-blue-500 text-sm hover:underline"
+                  >
+                    {link.label}
+                  </a>
+                ))}
               </div>
-            </ButtonMagnet>
+            )}
+            <ClientOnly>
+              {() =>
+                isOwnProfile ? (
+                  <EditProfile
+                    profile={{
+                      displayName: profile.displayName ?? "",
+                      bio: profile.bio ?? "",
+                      links: profile.links ?? [],
+                    }}
+                    onSaved={() => revalidator.revalidate()}
+                  />
+                ) : (
+                  <FollowButton address={address} onChange={() => revalidator.revalidate()} />
+                )
+              }
+            </ClientOnly>
           </div>
         </div>
         <div className="flex flex-col gap-2 justify-center items-center">
           <Badge variant="outline" className="py-2 px-3 mx-auto">
             {address}
           </Badge>
-          <ForwardLink
-            to={`http://edu-chain-testnet.blockscout.com/address/${address}`}
-            className="text-end"
-          >
-            view on educhain explorer
+          <ForwardLink to={explorerAddressUrl(explorerChain.id, address)} className="text-end">
+            view on {explorerChain.name} explorer
           </ForwardLink>
         </div>
-        <TabsOutline defaultValue="coins-created">
+        <TabsOutline value={tab} onValueChange={(value) => goTo({ tab: value })}>
           <TabsOutlineList className="w-full mb-5">
             <TabsOutlineTrigger value="coins-created" className="capitalize">
               Coins Created
             </TabsOutlineTrigger>
+            <TabsOutlineTrigger value="portfolio" className="capitalize">
+              Portfolio
+            </TabsOutlineTrigger>
             <TabsOutlineTrigger value="followers" className="capitalize">
               Followers
             </TabsOutlineTrigger>
@@ -84,13 +171,24 @@ export default function ProfilePage() {
             </TabsOutlineTrigger>
           </TabsOutlineList>
           <TabsOutlineContent value="coins-created" className="flex flex-col gap-10">
-            <p className=" italic">soon</p>
+            <CreatedTokens tokens={createdTokens} />
+          </TabsOutlineContent>
+          <TabsOutlineContent value="portfolio" className="flex flex-col gap-10">
+            <PortfolioTab address={address} />
           </TabsOutlineContent>
           <TabsOutlineContent value="followers" className="flex flex-col gap-10">
-            <p className=" italic">soon</p>
+            <FollowList
+              list={followers}
+              emptyText="No followers yet"
+              onPage={(page) => goTo({ followers: String(page) })}
+            />
           </TabsOutlineContent>
           <TabsOutlineContent value="following" className="flex flex-col gap-10">
-            <p className=" italic">soon</p>
+            <FollowList
+              list={following}
+              emptyText="Not following anyone yet"
+              onPage={(page) => goTo({ following: String(page) })}
+            />
           </TabsOutlineContent>
         </TabsOutline>
       </div>
@@ -0,0 +1,16 @@
+import { Navigate } from "react-router";
+import { useFundWallet } from "@fund/wallet/provider";
+
+/** `/profile` is a shortcut to the connected wallet's public profile */
+export default function MyProfile() {
+  const { address, isConnected } = useFundWallet();
+
+  if (isConnected) return <Navigate to={`/profile/${address}`} replace />;
+
+  return (
+    <div className="w-full min-h-screen flex flex-col justify-center items-center text-center px-4">
+      <h1 className="text-4xl sm:text-6xl font-bold mb-4">Connect Your Wallet</h1>
+      <p className="text-lg sm:text-xl text-gray-500">Connect your wallet to see your profile.</p>
+    </div>
+  );
+}
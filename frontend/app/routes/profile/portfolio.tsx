@@ -0,0 +1,9 @@
+import type { Route } from "./+types/portfolio";
+
+export async function loader({ params }: Route.LoaderArgs) {
+  const portfolio = await fetch(
+    `${process.env.VITE_BE_URL}/api/users/${params.address}/portfolio`
+  ).then((res) => res.json());
+
+  return portfolio;
+}
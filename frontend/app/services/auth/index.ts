@@ -0,0 +1,74 @@
+import type { Address } from "viem";
+import { createSiweMessage } from "viem/siwe";
+
+export type AuthSession = {
+  address: Address;
+  role: string;
+  token: string;
+  expiresAt: string;
+};
+
+const STORAGE_KEY = "fund:session";
+const SIWE_STATEMENT = "Sign in to GoFundingDotFun.";
+
+/** the stored session for `address`, as long as it has not expired */
+export function loadSession(address: Address): AuthSession | null {
+  try {
+    const session: AuthSession = JSON.parse(localStorage.getItem(STORAGE_KEY) || "null");
+    if (!session || session.address.toLowerCase() !== address.toLowerCase()) return null;
+    return new Date(session.expiresAt) > new Date() ? session : null;
+  } catch {
+    return null;
+  }
+}
+
+export function clearSession() {
+  localStorage.removeItem(STORAGE_KEY);
+  fetch("/api/connect", { method: "POST", body: JSON.stringify({ disconnect: "" }) });
+}
+
+/**
+ * Runs the EIP-4361 flow: fetch a one-time nonce, have the wallet sign the SIWE message and trade
+ * the signature for a session token. The token is also handed to `/api/connect` so server loaders
+ * can call the backend on the wallet's behalf.
+ */
+export async function requestSession({
+  address,
+  chainId,
+  signMessage,
+}: {
+  address: Address;
+  chainId: number;
+  signMessage: (message: string) => Promise<string>;
+}): Promise<AuthSession> {
+  const { nonce } = await fetch(`${import.meta.env.VITE_BE_URL}/api/auth/nonce`, {
+    method: "POST",
+  }).then((r) => r.json());
+
+  const message = createSiweMessage({
+    domain: window.location.host,
+    address,
+    statement: SIWE_STATEMENT,
+    uri: window.location.origin,
+    version: "1",
+    chainId,
+    nonce,
+  });
+  const signature = await signMessage(message);
+
+  const response = await fetch(`${import.meta.env.VITE_BE_URL}/api/auth/session`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ message, signature }),
+  });
+  const data = await response.json();
+  if (!response.ok) throw new Error(data.message || "Failed to sign in");
+
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(data));
+  await fetch("/api/connect", { method: "POST", body: JSON.stringify({ token: data.token }) });
+
+  return data;
+}
+
+export const authHeaders = (session: AuthSession | null): Record<string, string> =>
+  session ? { Authorization: `Bearer ${session.token}` } : {};
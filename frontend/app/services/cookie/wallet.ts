@@ -11,9 +11,13 @@ const { getSession, commitSession, destroySession } = createCookieSessionStorage
   },
 });
 
-export async function saveWalletSession(address: string, request: Request) {
+export async function saveWalletSession(
+  { address, token }: { address: string; token: string },
+  request: Request
+) {
   const session = await getSession(request.headers.get("Cookie"));
   session.set("walletAddress", address);
+  session.set("authToken", token);
   return commitSession(session);
 }
 
@@ -22,6 +26,12 @@ export async function getWalletSession(request: Request) {
   return session.get("walletAddress");
 }
 
+/** the backend bearer token of the signed-in wallet, for loaders and actions */
+export async function getAuthToken(request: Request): Promise<string | undefined> {
+  const session = await getSession(request.headers.get("Cookie"));
+  return session.get("authToken");
+}
+
 export async function clearWalletSession(request: Request) {
   const session = await getSession(request.headers.get("Cookie"));
   return destroySession(session);
@@ -0,0 +1,36 @@
+const SLIPPAGE_KEY = "fund:slippage";
+
+export const SLIPPAGE_PRESETS = [0.5, 1, 3];
+export const DEFAULT_SLIPPAGE = 1;
+export const MAX_SLIPPAGE = 50;
+
+/** slippage tolerance in percent, kept across visits */
+export function loadSlippage(): number {
+  try {
+    const value = Number(localStorage.getItem(SLIPPAGE_KEY));
+    return value > 0 && value <= MAX_SLIPPAGE ? value : DEFAULT_SLIPPAGE;
+  } catch {
+    return DEFAULT_SLIPPAGE;
+  }
+}
+
+export function saveSlippage(value: number) {
+  localStorage.setItem(SLIPPAGE_KEY, String(value));
+}
+
+const APPROVAL_STRATEGY_KEY = "fund:approval-strategy";
+
+/** "exact" approves only what a sell needs, "unlimited" approves once per curve */
+export type ApprovalStrategy = "exact" | "unlimited";
+
+export function loadApprovalStrategy(): ApprovalStrategy {
+  try {
+    return localStorage.getItem(APPROVAL_STRATEGY_KEY) === "exact" ? "exact" : "unlimited";
+  } catch {
+    return "unlimited";
+  }
+}
+
+export function saveApprovalStrategy(value: ApprovalStrategy) {
+  localStorage.setItem(APPROVAL_STRATEGY_KEY, value);
+}
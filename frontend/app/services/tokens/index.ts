@@ -0,0 +1,22 @@
+import { getAuthToken } from "@services/cookie";
+
+/**
+ * Token list behind the home page. The "watchlist" sort isn't a backend sort, it is the signed-in
+ * wallet's stars, so it is read with the session cookie and never pages.
+ */
+export async function fetchTokenList(request: Request) {
+  const { searchParams } = new URL(request.url);
+
+  if (searchParams.get("sort") === "watchlist") {
+    const token = await getAuthToken(request);
+    if (!token) return { items: [], nextCursor: null };
+
+    const response = await fetch(`${process.env.VITE_BE_URL}/api/users/me/watchlist`, {
+      headers: { Authorization: `Bearer ${token}` },
+    });
+    return { items: response.ok ? await response.json() : [], nextCursor: null };
+  }
+
+  const response = await fetch(`${process.env.VITE_BE_URL}/api/tokens?${searchParams}`);
+  return response.json();
+}
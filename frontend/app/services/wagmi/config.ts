@@ -1,20 +1,27 @@
-import { createClient, http } from "viem";
+import { defineChain, fallback, http } from "viem";
 import { createConfig } from "wagmi";
-import { eduChainTestnet, sepolia } from "wagmi/chains";
-import { injected, metaMask, safe, walletConnect } from "wagmi/connectors";
+import { injected, metaMask } from "wagmi/connectors";
+import { CHAINS, type ChainConfig } from "@shared/chains";
+
+const toChain = (chain: ChainConfig) =>
+  defineChain({
+    id: chain.id,
+    name: chain.name,
+    nativeCurrency: chain.nativeCurrency,
+    rpcUrls: { default: { http: chain.rpcUrls } },
+    blockExplorers: { default: { name: "Explorer", url: chain.explorerUrl } },
+    contracts: { multicall3: { address: chain.multicall3 } },
+    testnet: chain.testnet,
+  });
+
+// wagmi wants a non-empty tuple, the registry's default chain goes first
+const [defaultChain, ...otherChains] = CHAINS.map(toChain);
 
 export const WAGMI_CONFIG = createConfig({
-  chains: [
-    // sepolia
-    eduChainTestnet,
-  ],
+  chains: [defaultChain, ...otherChains],
   connectors: [injected(), metaMask()],
   ssr: true,
-  transports: {
-    // [sepolia.id]: http("https://sepolia.infura.io/v3/ff13c1b25d9f4e939b5143372e0f5f41"),
-    [eduChainTestnet.id]: http("https://rpc.open-campus-codex.gelato.digital"),
-  },
-  // client({ chain }) {
-  //   return createClient({ chain, transport: http("https://...") });
-  // },
+  transports: Object.fromEntries(
+    CHAINS.map((chain) => [chain.id, fallback(chain.rpcUrls.map((url) => http(url)))])
+  ),
 });
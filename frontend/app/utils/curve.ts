@@ -0,0 +1,43 @@
+const WAD = 10n ** 18n;
+const BPS = 10_000n;
+
+export type CurveQuoteState = {
+  /** `getCurrentPrice`, wei per whole token */
+  price: bigint;
+  /** `PLATFORM_FEE` in basis points */
+  platformFee: bigint;
+};
+
+export type TradeQuote = {
+  amountOut: bigint;
+  /** platform fee in wei of the native coin */
+  fee: bigint;
+};
+
+/**
+ * Mirrors `BondingCurve.buy`/`sell`: buys pay the fee on the way in and mint at the current price,
+ * sells are valued at the current price and pay the fee on the way out. Both fill at the spot
+ * price, so the fee is the only gap between the quote and the current price; there is no
+ * separate price impact to show.
+ */
+export function quoteTrade(
+  type: "buy" | "sell",
+  amountIn: bigint,
+  { price, platformFee }: CurveQuoteState
+): TradeQuote {
+  if (amountIn <= 0n || price <= 0n) return { amountOut: 0n, fee: 0n };
+
+  if (type === "buy") {
+    const fee = (amountIn * platformFee) / BPS;
+    return { amountOut: ((amountIn - fee) * WAD) / price, fee };
+  }
+
+  const ethReturned = (amountIn * price) / WAD;
+  const fee = (ethReturned * platformFee) / BPS;
+  return { amountOut: ethReturned - fee, fee };
+}
+
+/** the least `amountOut` can drop to under a slippage tolerance given in percent */
+export function minimumOut(amountOut: bigint, slippagePercent: number) {
+  return (amountOut * (BPS - BigInt(Math.round(slippagePercent * 100)))) / BPS;
+}
@@ -0,0 +1,139 @@
+import { formatUnits, parseUnits } from "viem";
+
+type Amount = bigint | number | string;
+
+type FormatOptions = {
+  /** decimals of a bigint amount, 18 for EDU and every campaign token */
+  decimals?: number;
+  maximumFractionDigits?: number;
+  locale?: string;
+};
+
+const SUBSCRIPT_DIGITS = "₀₁₂₃₄₅₆₇₈₉";
+// prices with more leading fraction zeros than this collapse them into a subscript
+const SUBSCRIPT_FROM = 4;
+const PRICE_SIGNIFICANT_DIGITS = 4;
+
+let activeLocale = "en-US";
+
+/**
+ * en-US while rendering on the server and hydrating, so both produce the same text; the reader's
+ * locale once `applyBrowserLocale` ran after mount
+ */
+export const displayLocale = () => activeLocale;
+
+/** switches formatting to the browser's locale, call it from an effect and re-render */
+export function applyBrowserLocale() {
+  if (typeof navigator !== "undefined" && navigator.language) activeLocale = navigator.language;
+  return activeLocale;
+}
+
+/** user input to a bigint amount, null when it isn't a plain non-negative decimal */
+export function parseAmount(value: string, decimals = 18): bigint | null {
+  const trimmed = value.trim();
+  if (!/^\d*\.?\d*$/.test(trimmed) || trimmed === "" || trimmed === ".") return null;
+
+  try {
+    return parseUnits(trimmed, decimals);
+  } catch {
+    return null;
+  }
+}
+
+/** "1.5e-7" to "0.00000015", plain strings pass through */
+const expandExponent = (text: string) => {
+  const match = text.match(/^(-?)(\d+)(?:\.(\d+))?e([+-]\d+)$/i);
+  if (!match) return text;
+
+  const [, sign, integer, fraction = "", exponent] = match;
+  const digits = integer + fraction;
+  const point = integer.length + Number(exponent);
+
+  if (point <= 0) return `${sign}0.${"0".repeat(-point)}${digits}`.replace(/\.?0+$/, "");
+  if (point >= digits.length) return sign + digits + "0".repeat(point - digits.length);
+  return `${sign}${digits.slice(0, point)}.${digits.slice(point)}`;
+};
+
+/**
+ * exact decimal string of an amount: bigints are scaled by `decimals`, numbers use their shortest
+ * round-trip form, so 0.3 stays "0.3" instead of the "0.29999..." the binary float really holds
+ */
+const toDecimalString = (value: Amount, decimals: number) => {
+  if (typeof value === "bigint") return formatUnits(value, decimals);
+  const number = Number(value);
+  if (!Number.isFinite(number)) return "0";
+  return expandExponent(String(number));
+};
+
+const separators = (locale: string) => {
+  const parts = new Intl.NumberFormat(locale).formatToParts(1000.1);
+  return {
+    group: parts.find((part) => part.type === "group")?.value ?? ",",
+    decimal: parts.find((part) => part.type === "decimal")?.value ?? ".",
+  };
+};
+
+/**
+ * Groups and truncates a decimal string without ever turning it into a float, so 1B-supply
+ * balances keep every digit. Fractions are truncated, never rounded up past what is held.
+ */
+export function formatAmount(value: Amount, options: FormatOptions = {}): string {
+  const { decimals = 18, maximumFractionDigits = 4, locale = displayLocale() } = options;
+  const decimal = toDecimalString(value, decimals);
+  const negative = decimal.startsWith("-");
+  const [integer, fraction = ""] = decimal.replace("-", "").split(".");
+  const { group, decimal: point } = separators(locale);
+
+  const grouped = integer.replace(/\B(?=(\d{3})+(?!\d))/g, group);
+  const kept = fraction.slice(0, maximumFractionDigits).replace(/0+$/, "");
+
+  return `${negative ? "-" : ""}${grouped}${kept ? point + kept : ""}`;
+}
+
+/** 1.2K, 3.4M, 5.6B; only for headline numbers where precision doesn't matter */
+export function formatCompact(value: Amount, options: FormatOptions = {}): string {
+  const { decimals = 18, maximumFractionDigits = 2, locale = displayLocale() } = options;
+  const number = Number(toDecimalString(value, decimals));
+  if (Math.abs(number) < 1000)
+    return formatAmount(value, { decimals, maximumFractionDigits, locale });
+
+  return new Intl.NumberFormat(locale, { notation: "compact", maximumFractionDigits }).format(
+    number
+  );
+}
+
+/**
+ * Prices keep 4 significant digits. Tiny ones collapse their leading zeros into a subscript
+ * count, so 0.0000000337 reads as 0.0₇337.
+ */
+export function formatPrice(value: Amount, options: FormatOptions = {}): string {
+  const { decimals = 18, locale = displayLocale() } = options;
+  const decimal = toDecimalString(value, decimals);
+  const [integer, fraction = ""] = decimal.replace("-", "").split(".");
+
+  if (integer !== "0" || fraction === "") {
+    return formatAmount(value, {
+      decimals,
+      locale,
+      maximumFractionDigits: PRICE_SIGNIFICANT_DIGITS,
+    });
+  }
+
+  const zeros = fraction.match(/^0*/)![0].length;
+  const significant = fraction.slice(zeros, zeros + PRICE_SIGNIFICANT_DIGITS).replace(/0+$/, "");
+  if (!significant) return "0";
+
+  const { decimal: point } = separators(locale);
+  const sign = decimal.startsWith("-") ? "-" : "";
+  if (zeros < SUBSCRIPT_FROM) return `${sign}0${point}${"0".repeat(zeros)}${significant}`;
+
+  const subscript = String(zeros)
+    .split("")
+    .map((digit) => SUBSCRIPT_DIGITS[Number(digit)])
+    .join("");
+  return `${sign}0${point}0${subscript}${significant}`;
+}
+
+export function formatPercent(value: number, locale = displayLocale()): string {
+  return new Intl.NumberFormat(locale, { maximumFractionDigits: 2 }).format(value) + "%";
+}
@@ -5,4 +5,6 @@ import tsconfigPaths from "vite-tsconfig-paths";
 
 export default defineConfig({
   plugins: [tailwindcss(), reactRouter(), tsconfigPaths()],
+  // ../shared imports zod too, always resolve it from this package
+  resolve: { dedupe: ["zod"] },
 });
@@ -0,0 +1,76 @@
+type Hex = `0x${string}`;
+
+export type ChainConfig = {
+  id: number;
+  name: string;
+  nativeCurrency: { name: string; symbol: string; decimals: number };
+  /** tried in order, later entries only when the earlier ones fail */
+  rpcUrls: string[];
+  explorerUrl: string;
+  launcherAddress: Hex;
+  /**
+   * where indexing of a new curve starts. Set to the chain's multicall3 deployment, which every
+   * launcher deployment came after; move it up to the launcher's own block to skip more history
+   */
+  startBlock: number;
+  multicall3: Hex;
+  testnet: boolean;
+};
+
+const MULTICALL3: Hex = "0xcA11bde05977b3631167028862bE2a173976CA11";
+
+/** every network the launcher is deployed on, the first one is the default */
+export const CHAINS: ChainConfig[] = [
+  {
+    id: 656476,
+    name: "EDU Chain Testnet",
+    nativeCurrency: { name: "EDU", symbol: "EDU", decimals: 18 },
+    rpcUrls: [
+      "https://rpc.open-campus-codex.gelato.digital",
+      "https://open-campus-codex-sepolia.drpc.org",
+    ],
+    explorerUrl: "https://opencampus-codex.blockscout.com",
+    launcherAddress: "0x92d3A495E6f198a23aceE3Ff5F06Dd47510D88D3",
+    startBlock: 15514133,
+    multicall3: MULTICALL3,
+    testnet: true,
+  },
+  {
+    id: 11155111,
+    name: "Sepolia",
+    nativeCurrency: { name: "Sepolia Ether", symbol: "ETH", decimals: 18 },
+    rpcUrls: ["https://ethereum-sepolia-rpc.publicnode.com", "https://sepolia.drpc.org"],
+    explorerUrl: "https://sepolia.etherscan.io",
+    launcherAddress: "0xfeaa9715Ae6fa91338c6866bD78563249f9525Da",
+    startBlock: 751532,
+    multicall3: MULTICALL3,
+    testnet: true,
+  },
+  {
+    id: 11155420,
+    name: "OP Sepolia",
+    nativeCurrency: { name: "Sepolia Ether", symbol: "ETH", decimals: 18 },
+    rpcUrls: ["https://sepolia.optimism.io", "https://optimism-sepolia-rpc.publicnode.com"],
+    explorerUrl: "https://optimism-sepolia.blockscout.com",
+    launcherAddress: "0xA7CdEE2B7f5c491E6e7a9763cC37Cf147Ba307b3",
+    startBlock: 1620204,
+    multicall3: MULTICALL3,
+    testnet: true,
+  },
+];
+
+export const DEFAULT_CHAIN_ID = CHAINS[0].id;
+
+export const CHAIN_IDS = CHAINS.map((chain) => chain.id);
+
+export const isSupportedChain = (chainId: number) => CHAIN_IDS.includes(chainId);
+
+/** the registry entry for `chainId`, falling back to the default chain */
+export const getChain = (chainId: number = DEFAULT_CHAIN_ID) =>
+  CHAINS.find((chain) => chain.id === chainId) ?? CHAINS[0];
+
+export const explorerTxUrl = (chainId: number, hash: string) =>
+  `${getChain(chainId).explorerUrl}/tx/${hash}`;
+
+export const explorerAddressUrl = (chainId: number, address: string) =>
+  `${getChain(chainId).explorerUrl}/address/${address}`;
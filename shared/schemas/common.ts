@@ -0,0 +1,31 @@
+import { z } from "zod";
+import { isSupportedChain } from "../chains";
+
+export const addressSchema = z
+  .string()
+  .trim()
+  .regex(/^0x[a-fA-F0-9]{40}$/, "Must be a valid EVM address");
+
+export const hashSchema = z
+  .string()
+  .trim()
+  .regex(/^0x[a-fA-F0-9]{64}$/, "Must be a 32-byte hex hash");
+
+/** optional form fields come in as "" when left empty */
+export const optionalAddressSchema = z
+  .union([z.literal(""), addressSchema])
+  .optional()
+  .transform((value) => value || undefined);
+
+export type FieldError = {
+  field: string;
+  message: string;
+};
+
+export const toFieldErrors = (error: z.ZodError): FieldError[] =>
+  error.issues.map((issue) => ({ field: issue.path.join("."), message: issue.message }));
+
+export const chainIdSchema = z.coerce
+  .number()
+  .int()
+  .refine(isSupportedChain, "Unsupported network");
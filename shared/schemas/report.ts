@@ -0,0 +1,28 @@
+import { z } from "zod";
+
+export const REPORT_REASONS = {
+  impersonation: "Impersonates a person or project",
+  scam: "Scam or fraudulent fundraising",
+  malicious_embed: "Malicious or misleading embed",
+  abusive_content: "Abusive or hateful content",
+  spam: "Spam",
+  other: "Something else",
+} as const;
+
+export type ReportReason = keyof typeof REPORT_REASONS;
+
+export const REPORT_DETAILS_MAX_LENGTH = 500;
+
+export const createReportSchema = z.object({
+  reason: z.enum(Object.keys(REPORT_REASONS) as [ReportReason, ...ReportReason[]]),
+  details: z
+    .string()
+    .trim()
+    .max(
+      REPORT_DETAILS_MAX_LENGTH,
+      `Details must be at most ${REPORT_DETAILS_MAX_LENGTH} characters`
+    )
+    .optional(),
+});
+
+export type CreateReport = z.infer<typeof createReportSchema>;
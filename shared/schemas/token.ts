@@ -0,0 +1,69 @@
+import { z } from "zod";
+import { DEFAULT_CHAIN_ID } from "../chains";
+import { addressSchema, chainIdSchema, hashSchema, optionalAddressSchema } from "./common";
+
+export const TOKEN_NAME_MAX_LENGTH = 32;
+export const TICKER_MAX_LENGTH = 10;
+export const DESCRIPTION_MAX_LENGTH = 1000;
+export const EMBED_CODE_MAX_LENGTH = 5000;
+
+const EMBED_HOSTS = ["youtube.com", "youtube-nocookie.com", "linkedin.com"];
+
+/** the `src` of the first iframe in an embed snippet */
+export const embedSrc = (embedCode: string) =>
+  embedCode.match(/<iframe[^>]+src=["']([^"']+)["']/i)?.[1] ?? null;
+
+const isSupportedEmbed = (embedCode: string) => {
+  const src = embedSrc(embedCode);
+  if (!src) return false;
+
+  try {
+    const { protocol, hostname } = new URL(src);
+    const host = hostname.replace(/^www\./, "");
+    return protocol === "https:" && EMBED_HOSTS.includes(host);
+  } catch {
+    return false;
+  }
+};
+
+/** what the creator types into the create form */
+export const tokenFormSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, "Name is required")
+    .max(TOKEN_NAME_MAX_LENGTH, `Name must be at most ${TOKEN_NAME_MAX_LENGTH} characters`),
+  ticker: z
+    .string()
+    .trim()
+    .regex(
+      new RegExp(`^\\$?[A-Za-z0-9]{1,${TICKER_MAX_LENGTH}}$`),
+      `Ticker must be 1-${TICKER_MAX_LENGTH} letters or digits, optionally starting with $`
+    ),
+  description: z
+    .string()
+    .trim()
+    .min(1, "Description is required")
+    .max(
+      DESCRIPTION_MAX_LENGTH,
+      `Description must be at most ${DESCRIPTION_MAX_LENGTH} characters`
+    ),
+  donationAddress: optionalAddressSchema,
+  embedCode: z
+    .string()
+    .trim()
+    .max(EMBED_CODE_MAX_LENGTH, `Embed code must be at most ${EMBED_CODE_MAX_LENGTH} characters`)
+    .refine(isSupportedEmbed, "Embed code must be a YouTube or LinkedIn iframe"),
+});
+
+/** the payload `POST /api/tokens` accepts once the token is deployed */
+export const createTokenSchema = tokenFormSchema.extend({
+  chainId: chainIdSchema.default(DEFAULT_CHAIN_ID),
+  creationTxHash: hashSchema,
+  contractAddress: addressSchema,
+  bondingCurveAddress: addressSchema,
+  initialBuyPerToken: z.number().nonnegative().optional(),
+});
+
+export type TokenForm = z.infer<typeof tokenFormSchema>;
+export type CreateToken = z.infer<typeof createTokenSchema>;
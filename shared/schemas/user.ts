@@ -0,0 +1,34 @@
+import { z } from "zod";
+
+export const DISPLAY_NAME_MAX_LENGTH = 32;
+export const BIO_MAX_LENGTH = 280;
+export const MAX_PROFILE_LINKS = 5;
+
+const linkSchema = z.object({
+  label: z
+    .string()
+    .trim()
+    .min(1, "Label is required")
+    .max(32, "Label must be at most 32 characters"),
+  url: z
+    .string()
+    .trim()
+    .url("Must be a valid URL")
+    .refine((url) => /^https?:\/\//i.test(url), "Must be an http(s) link"),
+});
+
+/** the editable part of a profile, the wallet address itself never changes */
+export const profileSchema = z.object({
+  displayName: z
+    .string()
+    .trim()
+    .max(
+      DISPLAY_NAME_MAX_LENGTH,
+      `Display name must be at most ${DISPLAY_NAME_MAX_LENGTH} characters`
+    ),
+  bio: z.string().trim().max(BIO_MAX_LENGTH, `Bio must be at most ${BIO_MAX_LENGTH} characters`),
+  links: z.array(linkSchema).max(MAX_PROFILE_LINKS, `At most ${MAX_PROFILE_LINKS} links`),
+});
+
+export type Profile = z.infer<typeof profileSchema>;
+export type ProfileLink = z.infer<typeof linkSchema>;